@@ -0,0 +1,278 @@
+import type { MouseEvent } from "react";
+import { Card } from "react-bootstrap";
+import type { DatabaseTrack, PlayerTimesTrack } from "../types";
+import { FIT_MODEL_LABELS } from "../utils/fitting";
+import { makeTime } from "../utils/timeUtils";
+
+interface AILapTimeChartProps {
+  sampledTrack?: DatabaseTrack; // Raw times from aiadaptation.xml
+  processedTrack?: DatabaseTrack; // Fitted predictions from processDatabase
+  playerTrack?: PlayerTimesTrack;
+  minAI: number;
+  maxAI: number;
+  aifrom: number;
+  aito: number;
+  selectedAILevel: number | null;
+  onSelectAILevel: (aiLevel: number) => void;
+}
+
+// SVG canvas in viewBox units; the chart scales to the card width
+const WIDTH = 640;
+const HEIGHT = 260;
+const PAD = { left: 64, right: 16, top: 12, bottom: 30 };
+
+const COLORS = {
+  grid: "#495057",
+  axis: "#adb5bd",
+  range: "rgba(13, 202, 240, 0.15)",
+  curve: "#0dcaf0",
+  sample: "#ffc107",
+  best: "#20c997",
+  average: "#fd7e14",
+};
+
+const AILapTimeChart = ({
+  sampledTrack,
+  processedTrack,
+  playerTrack,
+  minAI,
+  maxAI,
+  aifrom,
+  aito,
+  selectedAILevel,
+  onSelectAILevel,
+}: AILapTimeChartProps) => {
+  const samples = Object.entries(sampledTrack?.ailevels ?? {}).flatMap(
+    ([ai, times]) =>
+      times.map((time) => ({
+        ai: Number(ai),
+        time,
+        count: sampledTrack?.samplesCount?.[Number(ai)] ?? 1,
+      })),
+  );
+  const curve = Object.entries(processedTrack?.ailevels ?? {})
+    .map(([ai, times]) => ({ ai: Number(ai), time: times[0] }))
+    .filter((point) => point.time !== undefined)
+    .sort((a, b) => a.ai - b.ai);
+  const playerTimes = playerTrack?.playertimes ?? [];
+  const playerBest = playerTrack?.playertime;
+  const playerAverage =
+    playerTimes.length > 1
+      ? playerTimes.reduce((sum, t) => sum + t, 0) / playerTimes.length
+      : undefined;
+
+  const allTimes = [
+    ...samples.map((s) => s.time),
+    ...curve.map((p) => p.time),
+    ...(playerBest ? [playerBest] : []),
+    ...(playerAverage ? [playerAverage] : []),
+  ];
+  if (allTimes.length === 0) {
+    return null;
+  }
+
+  // Domains: AI range on x, lap times on y with 5% headroom
+  const xMin = Math.min(minAI, ...samples.map((s) => s.ai));
+  const xMax = Math.max(maxAI, ...samples.map((s) => s.ai));
+  const span = Math.max(...allTimes) - Math.min(...allTimes) || 1;
+  const yMin = Math.min(...allTimes) - span * 0.05;
+  const yMax = Math.max(...allTimes) + span * 0.05;
+
+  const plotWidth = WIDTH - PAD.left - PAD.right;
+  const plotHeight = HEIGHT - PAD.top - PAD.bottom;
+  const toX = (ai: number) =>
+    PAD.left + ((ai - xMin) / (xMax - xMin || 1)) * plotWidth;
+  const toY = (time: number) =>
+    PAD.top + ((yMax - time) / (yMax - yMin)) * plotHeight;
+
+  const xTicks: number[] = [];
+  for (let ai = Math.ceil(xMin / 5) * 5; ai <= xMax; ai += 5) xTicks.push(ai);
+  const yTicks = [0, 0.25, 0.5, 0.75, 1].map((f) => yMin + f * (yMax - yMin));
+
+  const maxCount = Math.max(1, ...samples.map((s) => s.count));
+  const sampleRadius = (count: number) =>
+    3 + 5 * Math.sqrt(Math.max(0, count) / maxCount);
+
+  // Clicking the plot selects the nearest predicted AI level
+  const handleClick = (e: MouseEvent<SVGSVGElement>) => {
+    if (curve.length === 0) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * WIDTH;
+    const ai = xMin + ((x - PAD.left) / plotWidth) * (xMax - xMin);
+    const nearest = curve.reduce((best, point) =>
+      Math.abs(point.ai - ai) < Math.abs(best.ai - ai) ? point : best,
+    );
+    onSelectAILevel(nearest.ai);
+  };
+
+  return (
+    <Card bg="secondary" text="white">
+      <Card.Header className="fw-semibold d-flex justify-content-between">
+        <span>Lap Time Chart</span>
+        {processedTrack?.fitModel && (
+          <small className="text-white-50">
+            Fit: {FIT_MODEL_LABELS[processedTrack.fitModel]}
+          </small>
+        )}
+        {processedTrack?.extrapolated && (
+          <small className="text-warning">Extrapolated from other tracks</small>
+        )}
+      </Card.Header>
+      <Card.Body className="bg-dark p-2">
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          width="100%"
+          role="img"
+          aria-label="AI lap times by AI level"
+          onClick={handleClick}
+          style={{ cursor: curve.length > 0 ? "crosshair" : "default" }}
+        >
+          {selectedAILevel !== null && (
+            <rect
+              x={toX(aifrom)}
+              y={PAD.top}
+              width={Math.max(2, toX(aito) - toX(aifrom))}
+              height={plotHeight}
+              fill={COLORS.range}
+            />
+          )}
+
+          {yTicks.map((time) => (
+            <g key={time}>
+              <line
+                x1={PAD.left}
+                x2={WIDTH - PAD.right}
+                y1={toY(time)}
+                y2={toY(time)}
+                stroke={COLORS.grid}
+                strokeDasharray="2 4"
+              />
+              <text
+                x={PAD.left - 6}
+                y={toY(time) + 4}
+                textAnchor="end"
+                fontSize={11}
+                fill={COLORS.axis}
+              >
+                {makeTime(time, ":")}
+              </text>
+            </g>
+          ))}
+          {xTicks.map((ai) => (
+            <text
+              key={ai}
+              x={toX(ai)}
+              y={HEIGHT - PAD.bottom + 16}
+              textAnchor="middle"
+              fontSize={11}
+              fill={COLORS.axis}
+            >
+              {ai}
+            </text>
+          ))}
+          <line
+            x1={PAD.left}
+            x2={WIDTH - PAD.right}
+            y1={HEIGHT - PAD.bottom}
+            y2={HEIGHT - PAD.bottom}
+            stroke={COLORS.axis}
+          />
+
+          {playerBest !== undefined && (
+            <line
+              x1={PAD.left}
+              x2={WIDTH - PAD.right}
+              y1={toY(playerBest)}
+              y2={toY(playerBest)}
+              stroke={COLORS.best}
+              strokeWidth={1.5}
+            >
+              <title>{`Player best: ${makeTime(playerBest, ":")}`}</title>
+            </line>
+          )}
+          {playerAverage !== undefined && (
+            <line
+              x1={PAD.left}
+              x2={WIDTH - PAD.right}
+              y1={toY(playerAverage)}
+              y2={toY(playerAverage)}
+              stroke={COLORS.average}
+              strokeWidth={1.5}
+              strokeDasharray="6 4"
+            >
+              <title>{`Player average: ${makeTime(playerAverage, ":")}`}</title>
+            </line>
+          )}
+
+          {curve.length > 1 && (
+            <polyline
+              points={curve.map((p) => `${toX(p.ai)},${toY(p.time)}`).join(" ")}
+              fill="none"
+              stroke={COLORS.curve}
+              strokeWidth={2}
+            />
+          )}
+          {selectedAILevel !== null &&
+            curve
+              .filter((p) => p.ai === selectedAILevel)
+              .map((p) => (
+                <circle
+                  key={p.ai}
+                  cx={toX(p.ai)}
+                  cy={toY(p.time)}
+                  r={4}
+                  fill={COLORS.curve}
+                />
+              ))}
+
+          {samples.map((sample, i) => (
+            <circle
+              key={`${sample.ai}-${i}`}
+              cx={toX(sample.ai)}
+              cy={toY(sample.time)}
+              r={sampleRadius(sample.count)}
+              // Generated levels (0 sampled races) are drawn hollow
+              fill={sample.count > 0 ? COLORS.sample : "none"}
+              fillOpacity={0.7}
+              stroke={COLORS.sample}
+            >
+              <title>
+                {`AI ${sample.ai}: ${makeTime(sample.time, ":")} (${sample.count} race(s))`}
+              </title>
+            </circle>
+          ))}
+        </svg>
+
+        <div className="d-flex flex-wrap gap-3 small text-white-50 px-2">
+          <span>
+            <span style={{ color: COLORS.sample }}>●</span> Sampled (size =
+            races)
+          </span>
+          <span>
+            <span style={{ color: COLORS.curve }}>━</span> Fitted
+          </span>
+          {playerBest !== undefined && (
+            <span>
+              <span style={{ color: COLORS.best }}>━</span> Player best{" "}
+              {makeTime(playerBest, ":")}
+            </span>
+          )}
+          {playerAverage !== undefined && (
+            <span>
+              <span style={{ color: COLORS.average }}>┅</span> Player average{" "}
+              {makeTime(playerAverage, ":")}
+            </span>
+          )}
+          {selectedAILevel !== null && (
+            <span>
+              <span style={{ color: COLORS.curve }}>■</span> AI {aifrom} -{" "}
+              {aito}
+            </span>
+          )}
+        </div>
+      </Card.Body>
+    </Card>
+  );
+};
+
+export default AILapTimeChart;
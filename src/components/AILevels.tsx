@@ -1,4 +1,5 @@
-import { Card, Form, Table } from "react-bootstrap";
+import { Badge, Card, Form, Table } from "react-bootstrap";
+import type { AIRange } from "../utils/aiLevels";
 import { makeTime } from "../utils/timeUtils";
 
 interface AILevel {
@@ -10,6 +11,7 @@ interface AILevelsProps {
   aiLevels: AILevel[];
   selectedAILevel: number | null;
   spacing: number;
+  range?: AIRange; // Range of the selected class/track
   onSelectAILevel: (aiLevel: number) => void;
   onSpacingChange: (spacing: number) => void;
 }
@@ -18,12 +20,25 @@ const AILevels = ({
   aiLevels,
   selectedAILevel,
   spacing,
+  range,
   onSelectAILevel,
   onSpacingChange,
 }: AILevelsProps) => {
   return (
     <Card bg="secondary" text="white" className="h-100">
-      <Card.Header className="fw-semibold">AI Levels</Card.Header>
+      <Card.Header className="fw-semibold d-flex justify-content-between align-items-center">
+        AI Levels
+        {range && (
+          <span className="small fw-normal">
+            {range.minAI} - {range.maxAI}
+            {range.source !== "global" && (
+              <Badge bg="info" className="ms-2">
+                {range.source} override
+              </Badge>
+            )}
+          </span>
+        )}
+      </Card.Header>
       <Card.Body className="p-0">
         <div className="table-responsive" style={{ maxHeight: 250 }}>
           <Table hover size="sm" variant="dark" className="mb-0 align-middle">
@@ -0,0 +1,220 @@
+import { faPlus } from "@fortawesome/free-solid-svg-icons/faPlus";
+import { faTrashCan } from "@fortawesome/free-solid-svg-icons/faTrashCan";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { useState } from "react";
+import { Button, Col, Form, Row, Table } from "react-bootstrap";
+import type { AIRangeOverride, Assets } from "../types";
+import {
+  MAX_AI_LEVEL,
+  MIN_AI_LEVEL,
+  aiRangeOverrideKey,
+} from "../utils/aiLevels";
+
+interface AIRangeOverridesEditorProps {
+  assets: Assets | null;
+  overrides: Record<string, AIRangeOverride>;
+  defaults: { minAI: number; maxAI: number; aiSpacing: number };
+  onChange: (overrides: Record<string, AIRangeOverride>) => void;
+}
+
+const FIELDS = [
+  { key: "minAI", label: "Min AI", min: MIN_AI_LEVEL, max: MAX_AI_LEVEL },
+  { key: "maxAI", label: "Max AI", min: MIN_AI_LEVEL, max: MAX_AI_LEVEL },
+  { key: "spacing", label: "Spacing", min: 1, max: 5 },
+] as const;
+
+type OverrideField = (typeof FIELDS)[number]["key"];
+
+/**
+ * Value to store for the typed text: undefined clears the field, null rejects
+ * it. The inputs' min/max attributes are only hints, so the range is checked here.
+ */
+const parseField = (
+  field: OverrideField,
+  text: string,
+): number | undefined | null => {
+  if (text === "") return undefined;
+  const value = Math.round(Number(text));
+  const { min, max } = FIELDS.find((f) => f.key === field)!;
+  return value >= min && value <= max ? value : null;
+};
+
+const AIRangeOverridesEditor = ({
+  assets,
+  overrides,
+  defaults,
+  onChange,
+}: AIRangeOverridesEditorProps) => {
+  const [newClassId, setNewClassId] = useState("");
+  const [newTrackId, setNewTrackId] = useState("");
+  // Text being typed, so "8" can be entered on the way to "85"
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  const label = (key: string) => {
+    const [classid, trackid] = key.split("/");
+    const className = assets?.classes?.[classid]?.name || classid;
+    return trackid
+      ? `${className} - ${assets?.tracks?.[trackid]?.name || trackid}`
+      : `${className} (all tracks)`;
+  };
+
+  const placeholder = (key: string, field: OverrideField) => {
+    // Track entries inherit from their class entry, then from the global range
+    const classEntry = key.includes("/")
+      ? overrides[key.split("/")[0]]
+      : undefined;
+    const fallback =
+      field === "spacing"
+        ? defaults.aiSpacing
+        : field === "minAI"
+          ? defaults.minAI
+          : defaults.maxAI;
+    return String(classEntry?.[field] ?? fallback);
+  };
+
+  const updateField = (key: string, field: OverrideField, text: string) => {
+    setDrafts({ ...drafts, [`${key}:${field}`]: text });
+    const value = parseField(field, text);
+    if (value === null) return;
+    onChange({ ...overrides, [key]: { ...overrides[key], [field]: value } });
+  };
+
+  // Leaving a field shows the stored value again, dropping rejected text
+  const clearDraft = (key: string, field: OverrideField) => {
+    const updated = { ...drafts };
+    delete updated[`${key}:${field}`];
+    setDrafts(updated);
+  };
+
+  const handleAdd = () => {
+    if (!newClassId) return;
+    const key = aiRangeOverrideKey(newClassId, newTrackId || undefined);
+    if (!overrides[key]) onChange({ ...overrides, [key]: {} });
+    setNewTrackId("");
+  };
+
+  const handleRemove = (key: string) => {
+    const updated = { ...overrides };
+    delete updated[key];
+    onChange(updated);
+  };
+
+  const keys = Object.keys(overrides).sort((a, b) =>
+    label(a).localeCompare(label(b)),
+  );
+
+  return (
+    <>
+      {keys.length > 0 && (
+        <Table size="sm" variant="dark" className="mb-3 align-middle">
+          <thead>
+            <tr>
+              <th>Class / Track</th>
+              {FIELDS.map((field) => (
+                <th key={field.key} style={{ width: 110 }}>
+                  {field.label}
+                </th>
+              ))}
+              <th style={{ width: 48 }} />
+            </tr>
+          </thead>
+          <tbody>
+            {keys.map((key) => (
+              <tr key={key}>
+                <td>{label(key)}</td>
+                {FIELDS.map((field) => {
+                  const draft = drafts[`${key}:${field.key}`];
+                  return (
+                    <td key={field.key}>
+                      <Form.Control
+                        type="number"
+                        size="sm"
+                        min={field.min}
+                        max={field.max}
+                        placeholder={placeholder(key, field.key)}
+                        value={draft ?? overrides[key][field.key] ?? ""}
+                        isInvalid={
+                          draft !== undefined &&
+                          parseField(field.key, draft) === null
+                        }
+                        onChange={(e) =>
+                          updateField(key, field.key, e.target.value)
+                        }
+                        onBlur={() => clearDraft(key, field.key)}
+                      />
+                    </td>
+                  );
+                })}
+                <td className="text-end">
+                  <Button
+                    variant="outline-danger"
+                    size="sm"
+                    onClick={() => handleRemove(key)}
+                    aria-label="Remove override"
+                  >
+                    <FontAwesomeIcon icon={faTrashCan} />
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </Table>
+      )}
+
+      <Row className="g-2 align-items-end">
+        <Col md={5}>
+          <Form.Group controlId="override-class">
+            <Form.Label className="small mb-1">Class</Form.Label>
+            <Form.Select
+              size="sm"
+              value={newClassId}
+              onChange={(e) => setNewClassId(e.target.value)}
+              disabled={!assets}
+            >
+              <option value="">
+                {assets ? "Select a class" : "Load game data first"}
+              </option>
+              {assets?.classesSorted.map((cls) => (
+                <option key={cls.id} value={cls.id}>
+                  {cls.name}
+                </option>
+              ))}
+            </Form.Select>
+          </Form.Group>
+        </Col>
+        <Col md={5}>
+          <Form.Group controlId="override-track">
+            <Form.Label className="small mb-1">Track (optional)</Form.Label>
+            <Form.Select
+              size="sm"
+              value={newTrackId}
+              onChange={(e) => setNewTrackId(e.target.value)}
+              disabled={!newClassId}
+            >
+              <option value="">All tracks</option>
+              {assets?.tracksSorted.map((track) => (
+                <option key={track.id} value={track.id}>
+                  {track.name}
+                </option>
+              ))}
+            </Form.Select>
+          </Form.Group>
+        </Col>
+        <Col md={2}>
+          <Button
+            variant="outline-success"
+            size="sm"
+            className="w-100"
+            disabled={!newClassId}
+            onClick={handleAdd}
+          >
+            <FontAwesomeIcon icon={faPlus} className="me-1" />
+            Add
+          </Button>
+        </Col>
+      </Row>
+    </>
+  );
+};
+
+export default AIRangeOverridesEditor;
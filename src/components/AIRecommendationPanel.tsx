@@ -0,0 +1,120 @@
+import { faBullseye } from "@fortawesome/free-solid-svg-icons/faBullseye";
+import { faWandMagicSparkles } from "@fortawesome/free-solid-svg-icons/faWandMagicSparkles";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { Button, Card, Col, Form, Row } from "react-bootstrap";
+import type { PaceBasis } from "../types";
+import type { AIRecommendation } from "../utils/aiRecommendation";
+import { makeTime } from "../utils/timeUtils";
+
+interface AIRecommendationPanelProps {
+  recommendation?: Omit<AIRecommendation, "classid" | "trackid">;
+  hasSelection: boolean;
+  targetGapPct: number;
+  paceBasis: PaceBasis;
+  bulkCount: number; // Class/track pairs with both a valid fit and player times
+  onTargetGapChange: (gapPct: number) => void;
+  onPaceBasisChange: (basis: PaceBasis) => void;
+  onUseRecommendation: (aiLevel: number) => void;
+  onApplyAll: () => void;
+}
+
+const AIRecommendationPanel = ({
+  recommendation,
+  hasSelection,
+  targetGapPct,
+  paceBasis,
+  bulkCount,
+  onTargetGapChange,
+  onPaceBasisChange,
+  onUseRecommendation,
+  onApplyAll,
+}: AIRecommendationPanelProps) => {
+  const recommendationText = () => {
+    if (!hasSelection) return "Select a class and track";
+    if (!recommendation) {
+      return "Needs both a valid fit and player times for this class/track";
+    }
+    const { aiLevel, predictedTime, targetTime, playerTime, clamped } =
+      recommendation;
+    return (
+      <>
+        <strong className="text-white">AI {aiLevel}</strong> predicts{" "}
+        {makeTime(predictedTime, ":")} for a target of{" "}
+        {makeTime(targetTime, ":")} (your {paceBasis}{" "}
+        {makeTime(playerTime, ":")})
+        {clamped && (
+          <span className="text-warning">
+            {" "}
+            • target is outside the predicted AI range
+          </span>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <Card bg="secondary" text="white">
+      <Card.Header className="fw-semibold">Recommended AI Level</Card.Header>
+      <Card.Body>
+        <Row className="g-3 align-items-end">
+          <Col md={3}>
+            <Form.Group controlId="target-gap">
+              <Form.Label className="small mb-1">Target gap (%)</Form.Label>
+              <Form.Control
+                type="number"
+                size="sm"
+                min={-10}
+                max={10}
+                step={0.1}
+                value={targetGapPct}
+                onChange={(e) => {
+                  const val = Number(e.target.value);
+                  if (Number.isFinite(val)) onTargetGapChange(val);
+                }}
+              />
+            </Form.Group>
+          </Col>
+          <Col md={3}>
+            <Form.Group controlId="pace-basis">
+              <Form.Label className="small mb-1">Relative to my</Form.Label>
+              <Form.Select
+                size="sm"
+                value={paceBasis}
+                onChange={(e) => onPaceBasisChange(e.target.value as PaceBasis)}
+              >
+                <option value="average">Average lap time</option>
+                <option value="best">Best lap time</option>
+              </Form.Select>
+            </Form.Group>
+          </Col>
+          <Col md={6} className="d-flex justify-content-end gap-2">
+            <Button
+              variant="outline-light"
+              size="sm"
+              disabled={!recommendation}
+              onClick={() =>
+                recommendation && onUseRecommendation(recommendation.aiLevel)
+              }
+            >
+              <FontAwesomeIcon icon={faBullseye} className="me-1" />
+              Select recommended level
+            </Button>
+            <Button
+              variant="success"
+              size="sm"
+              disabled={bulkCount === 0}
+              onClick={onApplyAll}
+              title="Review and generate levels around the recommendation for every class/track with player times"
+            >
+              <FontAwesomeIcon icon={faWandMagicSparkles} className="me-1" />
+              Apply to all ({bulkCount})
+            </Button>
+          </Col>
+        </Row>
+        <div className="small text-white-50 mt-2">{recommendationText()}</div>
+      </Card.Body>
+    </Card>
+  );
+};
+
+export default AIRecommendationPanel;
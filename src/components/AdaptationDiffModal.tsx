@@ -0,0 +1,46 @@
+import { Button, Modal } from "react-bootstrap";
+import type { Assets } from "../types";
+import type { AdaptationDiff } from "../utils/xmlDiff";
+import AdaptationDiffView from "./AdaptationDiffView";
+
+interface AdaptationDiffModalProps {
+  show: boolean;
+  assets: Assets | null;
+  diff: AdaptationDiff | null;
+  beforeName: string;
+  afterName: string;
+  onHide: () => void;
+}
+
+const AdaptationDiffModal = ({
+  show,
+  assets,
+  diff,
+  beforeName,
+  afterName,
+  onHide,
+}: AdaptationDiffModalProps) => {
+  if (!diff) return null;
+
+  return (
+    <Modal show={show} onHide={onHide} size="lg" data-bs-theme="dark">
+      <Modal.Header closeButton className="bg-dark border-secondary">
+        <Modal.Title>Compare AI Adaptation Files</Modal.Title>
+      </Modal.Header>
+      <Modal.Body className="bg-dark text-white">
+        <p className="small text-white-50">
+          Changes from <strong className="text-white">{beforeName}</strong> to{" "}
+          <strong className="text-white">{afterName}</strong>
+        </p>
+        <AdaptationDiffView diff={diff} assets={assets} />
+      </Modal.Body>
+      <Modal.Footer className="bg-dark border-secondary">
+        <Button variant="secondary" onClick={onHide}>
+          Close
+        </Button>
+      </Modal.Footer>
+    </Modal>
+  );
+};
+
+export default AdaptationDiffModal;
@@ -0,0 +1,138 @@
+import { Badge, Table } from "react-bootstrap";
+import type { Assets } from "../types";
+import { makeTime } from "../utils/timeUtils";
+import type { AdaptationDiff } from "../utils/xmlDiff";
+
+interface AdaptationDiffViewProps {
+  diff: AdaptationDiff;
+  assets: Assets | null;
+}
+
+const formatDelta = (delta: number) =>
+  `${delta > 0 ? "+" : ""}${delta.toFixed(3)}s`;
+
+const AdaptationDiffView = ({ diff, assets }: AdaptationDiffViewProps) => {
+  const { totals } = diff;
+
+  if (diff.tracks.length === 0) {
+    return <p className="text-white-50 mb-0">No differences.</p>;
+  }
+
+  return (
+    <>
+      <div className="d-flex flex-wrap gap-2 mb-3">
+        <Badge bg="success">{totals.added} AI level(s) added</Badge>
+        <Badge bg="danger">{totals.removed} removed</Badge>
+        <Badge bg="warning" text="dark">
+          {totals.changed} changed
+        </Badge>
+        <Badge bg="secondary">
+          {totals.playerTimesRemoved} player time(s) removed
+        </Badge>
+        {totals.playerTimesAdded > 0 && (
+          <Badge bg="info">
+            {totals.playerTimesAdded} player time(s) added
+          </Badge>
+        )}
+      </div>
+
+      <div className="overflow-auto" style={{ maxHeight: 420 }}>
+        {diff.tracks.map((track) => {
+          const rows = [
+            ...track.added.map((entry) => ({
+              ailevel: entry.ailevel,
+              kind: "added" as const,
+              oldCell: "-",
+              newCell: `${makeTime(entry.time, ":")} (${entry.samples})`,
+              delta: "",
+            })),
+            ...track.removed.map((entry) => ({
+              ailevel: entry.ailevel,
+              kind: "removed" as const,
+              oldCell: `${makeTime(entry.time, ":")} (${entry.samples})`,
+              newCell: "-",
+              delta: "",
+            })),
+            ...track.changed.map((change) => ({
+              ailevel: change.ailevel,
+              kind: "changed" as const,
+              oldCell: `${makeTime(change.oldTime, ":")} (${change.oldSamples})`,
+              newCell: `${makeTime(change.newTime, ":")} (${change.newSamples})`,
+              delta: formatDelta(change.newTime - change.oldTime),
+            })),
+          ].sort((a, b) => a.ailevel - b.ailevel);
+
+          return (
+            <div
+              key={`${track.classid}-${track.trackid}`}
+              className="mb-3 border-bottom border-secondary pb-2"
+            >
+              <h6 className="mb-2">
+                {assets?.classes?.[track.classid]?.name || track.classid}
+                <span className="text-white-50">
+                  {" "}
+                  - {assets?.tracks?.[track.trackid]?.name || track.trackid}
+                </span>
+              </h6>
+              {rows.length > 0 && (
+                <Table size="sm" variant="dark" className="mb-2 align-middle">
+                  <thead>
+                    <tr>
+                      <th style={{ width: 60 }}>AI</th>
+                      <th style={{ width: 90 }}>Change</th>
+                      <th>Old time (races)</th>
+                      <th>New time (races)</th>
+                      <th className="text-end">Delta</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map((row) => (
+                      <tr key={row.ailevel}>
+                        <td>{row.ailevel}</td>
+                        <td>
+                          <Badge
+                            bg={
+                              row.kind === "added"
+                                ? "success"
+                                : row.kind === "removed"
+                                  ? "danger"
+                                  : "warning"
+                            }
+                            text={row.kind === "changed" ? "dark" : undefined}
+                          >
+                            {row.kind}
+                          </Badge>
+                        </td>
+                        <td>{row.oldCell}</td>
+                        <td>{row.newCell}</td>
+                        <td className="text-end">{row.delta}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </Table>
+              )}
+              {track.playerTimesRemoved.length > 0 && (
+                <div className="small">
+                  <span className="text-danger">Player times removed:</span>{" "}
+                  {track.playerTimesRemoved
+                    .map((lap) => makeTime(lap, ":"))
+                    .join(", ")}
+                </div>
+              )}
+              {track.playerTimesAdded.length > 0 && (
+                <div className="small">
+                  <span className="text-info">Player times added:</span>{" "}
+                  {track.playerTimesAdded
+                    .map((lap) => makeTime(lap, ":"))
+                    .join(", ")}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </>
+  );
+};
+
+export default AdaptationDiffView;
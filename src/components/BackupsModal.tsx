@@ -0,0 +1,127 @@
+import { faClockRotateLeft } from "@fortawesome/free-solid-svg-icons/faClockRotateLeft";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { useState } from "react";
+import { Button, Modal, Table } from "react-bootstrap";
+import type { Assets } from "../types";
+import type { AdaptationBackup } from "../utils/aiadaptationBackup";
+import type { AdaptationDiff } from "../utils/xmlDiff";
+import AdaptationDiffView from "./AdaptationDiffView";
+
+interface BackupsModalProps {
+  show: boolean;
+  assets: Assets | null;
+  filePath: string;
+  backups: AdaptationBackup[];
+  onHide: () => void;
+  onCompare: (backup: AdaptationBackup) => Promise<AdaptationDiff>;
+  onRestore: (backup: AdaptationBackup) => void;
+}
+
+const BackupsModal = ({
+  show,
+  assets,
+  filePath,
+  backups,
+  onHide,
+  onCompare,
+  onRestore,
+}: BackupsModalProps) => {
+  const [preview, setPreview] = useState<{
+    name: string;
+    diff: AdaptationDiff;
+  } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCompare = async (backup: AdaptationBackup) => {
+    setError(null);
+    try {
+      setPreview({ name: backup.name, diff: await onCompare(backup) });
+    } catch (err) {
+      setPreview(null);
+      setError(`Could not read ${backup.name}: ${err}`);
+    }
+  };
+
+  return (
+    <Modal show={show} onHide={onHide} size="lg" data-bs-theme="dark">
+      <Modal.Header closeButton className="bg-dark border-secondary">
+        <Modal.Title>aiadaptation.xml Backups</Modal.Title>
+      </Modal.Header>
+      <Modal.Body className="bg-dark text-white">
+        <p className="small text-white-50 text-break">{filePath}</p>
+        {backups.length === 0 ? (
+          <p className="text-white-50 mb-0">
+            No backups yet. One is created every time the file is saved to the
+            game.
+          </p>
+        ) : (
+          <div className="table-responsive mb-3" style={{ maxHeight: 240 }}>
+            <Table size="sm" variant="dark" className="mb-0 align-middle">
+              <thead className="table-dark position-sticky top-0">
+                <tr>
+                  <th>Saved</th>
+                  <th>File</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {backups.map((backup) => (
+                  <tr
+                    key={backup.name}
+                    className={
+                      preview?.name === backup.name ? "table-active" : ""
+                    }
+                  >
+                    <td>{backup.date.toLocaleString()}</td>
+                    <td className="small text-white-50">{backup.name}</td>
+                    <td className="text-end text-nowrap">
+                      <Button
+                        variant="outline-info"
+                        size="sm"
+                        className="me-2"
+                        onClick={() => handleCompare(backup)}
+                      >
+                        Changes
+                      </Button>
+                      <Button
+                        variant="outline-warning"
+                        size="sm"
+                        onClick={() => onRestore(backup)}
+                      >
+                        <FontAwesomeIcon
+                          icon={faClockRotateLeft}
+                          className="me-1"
+                        />
+                        Restore
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+          </div>
+        )}
+
+        {error && <p className="text-danger small">{error}</p>}
+        {preview && (
+          <>
+            <h6 className="mb-2">
+              Restoring {preview.name} would make these changes:
+            </h6>
+            <AdaptationDiffView diff={preview.diff} assets={assets} />
+          </>
+        )}
+      </Modal.Body>
+      <Modal.Footer className="bg-dark border-secondary">
+        <span className="small text-white-50 me-auto">
+          Restoring backs up the current file first.
+        </span>
+        <Button variant="secondary" onClick={onHide}>
+          Close
+        </Button>
+      </Modal.Footer>
+    </Modal>
+  );
+};
+
+export default BackupsModal;
@@ -0,0 +1,411 @@
+import { useState } from "react";
+import {
+  Badge,
+  Button,
+  ButtonGroup,
+  Col,
+  Form,
+  Modal,
+  Row,
+  Table,
+} from "react-bootstrap";
+import { useConfigStore } from "../store/configStore";
+import type {
+  Assets,
+  Database,
+  PaceBasis,
+  PlayerTimes,
+  ProcessedDatabase,
+} from "../types";
+import {
+  planBulkEntry,
+  resolveAIRange,
+  type BulkApplyEntry,
+} from "../utils/aiLevels";
+import { recommendAILevel } from "../utils/aiRecommendation";
+
+export type BulkScope = "all" | "playerTimes" | "custom";
+type CenterMode = "recommended" | "fixed";
+
+interface BulkApplyModalProps {
+  show: boolean;
+  assets: Assets | null;
+  database: Database;
+  processed: ProcessedDatabase;
+  playerTimes: PlayerTimes;
+  targetGapPct: number;
+  paceBasis: PaceBasis;
+  initialScope: BulkScope;
+  onHide: () => void;
+  onConfirm: (entries: BulkApplyEntry[]) => void;
+}
+
+const pairKey = (classid: string, trackid: string) => `${classid}|${trackid}`;
+
+const toggle = (set: Set<string>, value: string) => {
+  const updated = new Set(set);
+  if (updated.has(value)) updated.delete(value);
+  else updated.add(value);
+  return updated;
+};
+
+interface PickListProps {
+  title: string;
+  ids: string[];
+  selected: Set<string>;
+  getLabel: (id: string) => string;
+  onChange: (selected: Set<string>) => void;
+}
+
+// Checkbox list; an empty selection means "all"
+const PickList = ({
+  title,
+  ids,
+  selected,
+  getLabel,
+  onChange,
+}: PickListProps) => (
+  <>
+    <div className="small mb-1">
+      {title}{" "}
+      <span className="text-white-50">
+        ({selected.size === 0 ? "all" : selected.size} selected)
+      </span>
+    </div>
+    <div
+      className="border border-secondary rounded p-2 overflow-auto"
+      style={{ maxHeight: 160 }}
+    >
+      {ids.map((id) => (
+        <Form.Check
+          key={id}
+          id={`bulk-${title}-${id}`}
+          type="checkbox"
+          label={getLabel(id)}
+          checked={selected.has(id)}
+          onChange={() => onChange(toggle(selected, id))}
+        />
+      ))}
+    </div>
+  </>
+);
+
+const BulkApplyModal = ({
+  show,
+  assets,
+  database,
+  processed,
+  playerTimes,
+  targetGapPct,
+  paceBasis,
+  initialScope,
+  onHide,
+  onConfirm,
+}: BulkApplyModalProps) => {
+  const { config } = useConfigStore();
+  const [scope, setScope] = useState<BulkScope>(initialScope);
+  const [centerMode, setCenterMode] = useState<CenterMode>("recommended");
+  const [fixedLevel, setFixedLevel] = useState(
+    Math.round((config.minAI + config.maxAI) / 2),
+  );
+  const [selectedClasses, setSelectedClasses] = useState<Set<string>>(
+    new Set(),
+  );
+  const [selectedTracks, setSelectedTracks] = useState<Set<string>>(new Set());
+  const [overrides, setOverrides] = useState<Record<string, number>>({});
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+
+  const className = (id: string) => assets?.classes?.[id]?.name || id;
+  const trackName = (id: string) => assets?.tracks?.[id]?.name || id;
+
+  // Every class/track with a valid fit
+  const fittedPairs = Object.entries(processed.classes).flatMap(
+    ([classid, classData]) =>
+      Object.keys(classData.tracks).map((trackid) => ({ classid, trackid })),
+  );
+  const fittedClasses = [...new Set(fittedPairs.map((p) => p.classid))].sort(
+    (a, b) => className(a).localeCompare(className(b)),
+  );
+  const customTracks = [
+    ...new Set(
+      fittedPairs
+        .filter(
+          (p) => selectedClasses.size === 0 || selectedClasses.has(p.classid),
+        )
+        .map((p) => p.trackid),
+    ),
+  ].sort((a, b) => trackName(a).localeCompare(trackName(b)));
+
+  const inScope = ({
+    classid,
+    trackid,
+  }: {
+    classid: string;
+    trackid: string;
+  }) => {
+    if (scope === "playerTimes") {
+      return !!playerTimes.classes[classid]?.tracks[trackid]?.playertimes
+        ?.length;
+    }
+    if (scope === "custom") {
+      return (
+        (selectedClasses.size === 0 || selectedClasses.has(classid)) &&
+        (selectedTracks.size === 0 || selectedTracks.has(trackid))
+      );
+    }
+    return true;
+  };
+
+  const rows = fittedPairs
+    .filter(inScope)
+    .map(({ classid, trackid }) => {
+      const key = pairKey(classid, trackid);
+      const processedTrack = processed.classes[classid].tracks[trackid];
+      const range = resolveAIRange(config, classid, trackid);
+      const recommendation =
+        centerMode === "recommended"
+          ? recommendAILevel(
+              processedTrack,
+              playerTimes.classes[classid]?.tracks[trackid],
+              targetGapPct,
+              paceBasis,
+            )
+          : undefined;
+      const source =
+        overrides[key] !== undefined
+          ? "manual"
+          : recommendation
+            ? "recommended"
+            : "fixed";
+      const centerAI = overrides[key] ?? recommendation?.aiLevel ?? fixedLevel;
+      return {
+        key,
+        source,
+        range,
+        entry: planBulkEntry(
+          database,
+          processedTrack,
+          classid,
+          trackid,
+          centerAI,
+          config.aiNumLevels,
+          range.spacing,
+          range.minAI,
+          range.maxAI,
+        ),
+      };
+    })
+    .sort(
+      (a, b) =>
+        className(a.entry.classid).localeCompare(className(b.entry.classid)) ||
+        trackName(a.entry.trackid).localeCompare(trackName(b.entry.trackid)),
+    );
+  const included = rows.filter(
+    (row) => !excluded.has(row.key) && row.entry.levels > 0,
+  );
+
+  return (
+    <Modal show={show} onHide={onHide} size="xl" data-bs-theme="dark">
+      <Modal.Header closeButton className="bg-dark border-secondary">
+        <Modal.Title>Bulk Apply AI Generation</Modal.Title>
+      </Modal.Header>
+      <Modal.Body className="bg-dark text-white">
+        <Row className="g-3 align-items-end mb-3">
+          <Col lg={5}>
+            <Form.Label className="small mb-1">Class/track pairs</Form.Label>
+            <ButtonGroup size="sm" className="d-flex">
+              {(
+                [
+                  ["all", "All with a valid fit"],
+                  ["playerTimes", "With player times"],
+                  ["custom", "Choose"],
+                ] as const
+              ).map(([value, label]) => (
+                <Button
+                  key={value}
+                  variant={scope === value ? "primary" : "outline-secondary"}
+                  onClick={() => setScope(value)}
+                >
+                  {label}
+                </Button>
+              ))}
+            </ButtonGroup>
+          </Col>
+          <Col lg={4}>
+            <Form.Group controlId="bulk-center-mode">
+              <Form.Label className="small mb-1">
+                Centre each range on
+              </Form.Label>
+              <Form.Select
+                size="sm"
+                value={centerMode}
+                onChange={(e) => setCenterMode(e.target.value as CenterMode)}
+              >
+                <option value="recommended">
+                  Recommended level ({targetGapPct}% from {paceBasis}), else
+                  fixed
+                </option>
+                <option value="fixed">Fixed level</option>
+              </Form.Select>
+            </Form.Group>
+          </Col>
+          <Col lg={3}>
+            <Form.Group controlId="bulk-fixed-level">
+              <Form.Label className="small mb-1">Fixed level</Form.Label>
+              <Form.Control
+                type="number"
+                size="sm"
+                min={config.minAI}
+                max={config.maxAI}
+                value={fixedLevel}
+                onChange={(e) => {
+                  const val = Number(e.target.value);
+                  if (Number.isFinite(val)) setFixedLevel(Math.round(val));
+                }}
+              />
+            </Form.Group>
+          </Col>
+        </Row>
+
+        {scope === "custom" && (
+          <Row className="g-3 mb-3">
+            <Col md={6}>
+              <PickList
+                title="Classes"
+                ids={fittedClasses}
+                selected={selectedClasses}
+                getLabel={className}
+                onChange={setSelectedClasses}
+              />
+            </Col>
+            <Col md={6}>
+              <PickList
+                title="Tracks"
+                ids={customTracks}
+                selected={selectedTracks}
+                getLabel={trackName}
+                onChange={setSelectedTracks}
+              />
+            </Col>
+          </Row>
+        )}
+
+        <div className="table-responsive" style={{ maxHeight: 360 }}>
+          <Table hover size="sm" variant="dark" className="mb-0 align-middle">
+            <thead className="table-dark position-sticky top-0">
+              <tr>
+                <th style={{ width: 32 }} />
+                <th>Class</th>
+                <th>Track</th>
+                <th style={{ width: 110 }}>Centre</th>
+                <th>Source</th>
+                <th>AI Range</th>
+                <th className="text-end">Levels</th>
+                <th className="text-end">Replaces</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ key, source, range, entry }) => (
+                <tr
+                  key={key}
+                  className={
+                    excluded.has(key) || entry.levels === 0
+                      ? "text-white-50"
+                      : ""
+                  }
+                >
+                  <td>
+                    <Form.Check
+                      type="checkbox"
+                      aria-label="Include"
+                      checked={!excluded.has(key) && entry.levels > 0}
+                      disabled={entry.levels === 0}
+                      onChange={() => setExcluded(toggle(excluded, key))}
+                    />
+                  </td>
+                  <td>{className(entry.classid)}</td>
+                  <td>
+                    {trackName(entry.trackid)}
+                    {processed.classes[entry.classid].tracks[entry.trackid]
+                      .extrapolated && (
+                      <Badge bg="warning" text="dark" className="ms-2">
+                        extrapolated
+                      </Badge>
+                    )}
+                  </td>
+                  <td>
+                    <Form.Control
+                      type="number"
+                      size="sm"
+                      min={range.minAI}
+                      max={range.maxAI}
+                      value={entry.centerAI}
+                      onChange={(e) => {
+                        const val = Number(e.target.value);
+                        if (Number.isFinite(val)) {
+                          setOverrides({
+                            ...overrides,
+                            [key]: Math.round(val),
+                          });
+                        }
+                      }}
+                    />
+                  </td>
+                  <td>
+                    <Badge
+                      bg={
+                        source === "recommended"
+                          ? "success"
+                          : source === "manual"
+                            ? "info"
+                            : "secondary"
+                      }
+                    >
+                      {source}
+                    </Badge>
+                  </td>
+                  <td>
+                    {entry.aifrom} - {entry.aito} (step: {entry.spacing})
+                    {range.source !== "global" && (
+                      <Badge bg="info" className="ms-2">
+                        {range.source} range
+                      </Badge>
+                    )}
+                  </td>
+                  <td className="text-end">{entry.levels}</td>
+                  <td className="text-end">{entry.replaced}</td>
+                </tr>
+              ))}
+              {rows.length === 0 && (
+                <tr>
+                  <td colSpan={8} className="text-center text-white-50">
+                    No class/track pairs with a valid fit match the selection
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </Table>
+        </div>
+        <p className="text-white-50 small mt-2 mb-0">
+          Existing AI levels of each included pair are replaced by{" "}
+          {config.aiNumLevels} generated level(s). This will download the
+          modified aiadaptation.xml file.
+        </p>
+      </Modal.Body>
+      <Modal.Footer className="bg-dark border-secondary">
+        <Button variant="secondary" onClick={onHide}>
+          Cancel
+        </Button>
+        <Button
+          variant="primary"
+          disabled={included.length === 0}
+          onClick={() => onConfirm(included.map((row) => row.entry))}
+        >
+          Apply {included.length} & download
+        </Button>
+      </Modal.Footer>
+    </Modal>
+  );
+};
+
+export default BulkApplyModal;
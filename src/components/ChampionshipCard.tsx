@@ -18,6 +18,7 @@ import {
   Modal,
 } from "react-bootstrap";
 import type { ChampionshipEntry } from "../types";
+import { getRaceClasses } from "../utils/standingsCalculator";
 
 interface ChampionshipCardProps {
   readonly championship: ChampionshipEntry;
@@ -38,6 +39,7 @@ const ChampionshipCard = ({
   const [showRenameModal, setShowRenameModal] = useState(false);
   const [newAlias, setNewAlias] = useState("");
   const [renameError, setRenameError] = useState("");
+  const raceClasses = getRaceClasses(championship.raceData ?? []);
 
   const handleDelete = (e: MouseEvent) => {
     e.stopPropagation();
@@ -135,6 +137,22 @@ const ChampionshipCard = ({
                 <Badge bg="primary">{championship.races}</Badge>
               </div>
             </ListGroup.Item>
+            {raceClasses.length > 0 && (
+              <ListGroup.Item className="bg-dark border-secondary py-2 px-0">
+                <div className="d-flex justify-content-between align-items-start gap-2">
+                  <span className="text-white-50 small text-nowrap">
+                    {raceClasses.length > 1 ? "Classes:" : "Class:"}
+                  </span>
+                  <div className="d-flex flex-wrap justify-content-end gap-1">
+                    {raceClasses.map((raceClass) => (
+                      <Badge key={raceClass.key} bg="secondary">
+                        {raceClass.name}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              </ListGroup.Item>
+            )}
             <ListGroup.Item className="bg-dark border-secondary py-2 px-0 border-bottom-0">
               <div className="d-flex justify-content-between align-items-center">
                 <span className="text-white-50 small">HTML File:</span>
@@ -1,34 +1,59 @@
-import { Card, Table } from "react-bootstrap";
+import { useState } from "react";
+import { Card, Form, Table } from "react-bootstrap";
 import type { ClassAsset } from "../types";
+import { fuzzyFilter, pinFavorites } from "../utils/listSearch";
+import FavoriteStar from "./FavoriteStar";
 
 interface ClassesProps {
   availableClasses: ClassAsset[];
   selectedClassId: string;
+  favoriteClassIds: string[];
   onSelectClass: (classId: string) => void;
   onSelectTrack: (trackId: string) => void;
   onSelectAILevel: (aiLevel: number | null) => void;
+  onToggleFavorite: (classId: string) => void;
 }
 
 const Classes = ({
   availableClasses,
   selectedClassId,
+  favoriteClassIds,
   onSelectClass,
   onSelectTrack,
   onSelectAILevel,
+  onToggleFavorite,
 }: ClassesProps) => {
+  const [search, setSearch] = useState("");
+
+  const classes = pinFavorites(
+    fuzzyFilter(availableClasses, search, (cls) => cls.name),
+    favoriteClassIds,
+  );
+
   return (
     <Card bg="secondary" text="white" className="h-100">
       <Card.Header className="fw-semibold">Classes</Card.Header>
       <Card.Body className="p-0">
+        <div className="p-2">
+          <Form.Control
+            type="search"
+            size="sm"
+            placeholder="Search classes..."
+            aria-label="Search classes"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+        </div>
         <div className="table-responsive" style={{ maxHeight: 320 }}>
           <Table hover size="sm" variant="dark" className="mb-0 align-middle">
             <thead className="table-dark position-sticky top-0">
               <tr>
+                <th style={{ width: 28 }} />
                 <th>Class</th>
               </tr>
             </thead>
             <tbody>
-              {availableClasses.map((cls) => (
+              {classes.map((cls) => (
                 <tr
                   key={cls.id}
                   onClick={() => {
@@ -39,9 +64,22 @@ const Classes = ({
                   className={selectedClassId === cls.id ? "table-active" : ""}
                   style={{ cursor: "pointer" }}
                 >
+                  <td>
+                    <FavoriteStar
+                      active={favoriteClassIds.includes(cls.id)}
+                      onToggle={() => onToggleFavorite(cls.id)}
+                    />
+                  </td>
                   <td>{cls.name}</td>
                 </tr>
               ))}
+              {classes.length === 0 && (
+                <tr>
+                  <td colSpan={2} className="text-center text-white-50">
+                    No matching classes
+                  </td>
+                </tr>
+              )}
             </tbody>
           </Table>
         </div>
@@ -0,0 +1,249 @@
+import { useState } from "react";
+import { Badge, Form, Modal, Table } from "react-bootstrap";
+import type {
+  Assets,
+  Database,
+  PlayerTimes,
+  ProcessedDatabase,
+} from "../types";
+import {
+  buildCoverageMatrix,
+  hasCoverageData,
+  summarizeCoverage,
+  trimCoverageMatrix,
+  type CoverageCell,
+  type CoverageFitStatus,
+} from "../utils/coverage";
+import { FIT_REJECTION_LABELS } from "../utils/fitReport";
+
+interface CoverageMatrixModalProps {
+  show: boolean;
+  assets: Assets;
+  database: Database;
+  processed: ProcessedDatabase;
+  playerTimes: PlayerTimes;
+  selectedClassId: string;
+  selectedTrackId: string;
+  onHide: () => void;
+  onSelect: (classId: string, trackId: string) => void;
+}
+
+const FIT_COLORS: Record<CoverageFitStatus, string | undefined> = {
+  fitted: "var(--bs-success)",
+  extrapolated: "var(--bs-warning)",
+  rejected: "var(--bs-danger)",
+  none: undefined,
+};
+
+const FIT_LABELS: Record<CoverageFitStatus, string> = {
+  fitted: "Valid fit",
+  extrapolated: "Extrapolated from other tracks",
+  rejected: "Fit rejected",
+  none: "No fit",
+};
+
+const CELL_SIZE = 26;
+
+const Marker = ({
+  color,
+  corner,
+}: {
+  color: string;
+  corner: "top" | "bottom";
+}) => (
+  <span
+    className="position-absolute rounded-circle"
+    style={{
+      width: 6,
+      height: 6,
+      right: 2,
+      [corner]: 2,
+      backgroundColor: color,
+    }}
+  />
+);
+
+const CoverageMatrixModal = ({
+  show,
+  assets,
+  database,
+  processed,
+  playerTimes,
+  selectedClassId,
+  selectedTrackId,
+  onHide,
+  onSelect,
+}: CoverageMatrixModalProps) => {
+  const [onlyWithData, setOnlyWithData] = useState(true);
+
+  const fullMatrix = buildCoverageMatrix(
+    assets,
+    database,
+    processed,
+    playerTimes,
+  );
+  const matrix = onlyWithData ? trimCoverageMatrix(fullMatrix) : fullMatrix;
+  const summary = summarizeCoverage(fullMatrix);
+
+  const cellTitle = (cell: CoverageCell, trackName: string) => {
+    const fit =
+      cell.fit === "rejected" && cell.rejection
+        ? `${FIT_LABELS.rejected} (${FIT_REJECTION_LABELS[cell.rejection]})`
+        : FIT_LABELS[cell.fit];
+    return [
+      `${assets.classes[cell.classid]?.name ?? cell.classid} - ${trackName}`,
+      `Sampled AI levels: ${cell.sampledLevels}`,
+      `Generated AI levels: ${cell.generatedLevels}`,
+      `Player laps: ${cell.playerLaps}`,
+      fit,
+    ].join("\n");
+  };
+
+  const cellBackground = (cell: CoverageCell) => {
+    if (cell.sampledLevels === 0) return undefined;
+    // Scale against the best covered combination so sparse cells stand out
+    const alpha =
+      0.25 + (0.75 * cell.sampledLevels) / Math.max(1, matrix.maxSampledLevels);
+    return `rgba(13, 202, 240, ${alpha.toFixed(2)})`;
+  };
+
+  return (
+    <Modal show={show} onHide={onHide} fullscreen data-bs-theme="dark">
+      <Modal.Header closeButton className="bg-dark border-secondary">
+        <Modal.Title>AI Data Coverage</Modal.Title>
+      </Modal.Header>
+      <Modal.Body className="bg-dark text-white d-flex flex-column">
+        <div className="d-flex flex-wrap justify-content-between align-items-center gap-2 mb-3">
+          <div className="d-flex flex-wrap gap-2">
+            <Badge bg="info">{summary.withData} with data</Badge>
+            <Badge bg="success">{summary.fitted} fitted</Badge>
+            <Badge bg="warning" text="dark">
+              {summary.extrapolated} extrapolated
+            </Badge>
+            <Badge bg="danger">{summary.needsRaces} need test races</Badge>
+          </div>
+          <Form.Check
+            type="switch"
+            id="coverage-only-with-data"
+            label="Only classes and tracks with data"
+            checked={onlyWithData}
+            onChange={(e) => setOnlyWithData(e.target.checked)}
+          />
+        </div>
+
+        <div className="d-flex flex-wrap gap-3 small text-white-50 mb-2">
+          <span>Cell number and shade: sampled AI levels</span>
+          {(["fitted", "extrapolated", "rejected"] as const).map((fit) => (
+            <span key={fit}>
+              <span
+                className="d-inline-block me-1 align-middle"
+                style={{
+                  width: 10,
+                  height: 10,
+                  boxShadow: `inset 0 0 0 2px ${FIT_COLORS[fit]}`,
+                }}
+              />
+              {FIT_LABELS[fit]}
+            </span>
+          ))}
+          <span>Top dot: player laps</span>
+          <span>Bottom dot: generated levels</span>
+          <span>Click a cell to select it</span>
+        </div>
+
+        {matrix.rows.length === 0 ? (
+          <div className="text-center text-white-50 py-5">
+            No AI or player data loaded
+          </div>
+        ) : (
+          <div className="overflow-auto flex-grow-1">
+            <Table
+              size="sm"
+              variant="dark"
+              className="mb-0 w-auto"
+              style={{ tableLayout: "fixed" }}
+            >
+              <thead className="position-sticky top-0" style={{ zIndex: 2 }}>
+                <tr>
+                  <th
+                    className="position-sticky start-0 bg-dark"
+                    style={{ minWidth: 220 }}
+                  />
+                  {matrix.classes.map((cls) => (
+                    <th
+                      key={cls.id}
+                      className={`bg-dark small fw-normal p-1 ${cls.id === selectedClassId ? "text-info" : ""}`}
+                      title={cls.name}
+                      style={{ width: CELL_SIZE }}
+                    >
+                      <div
+                        className="text-truncate"
+                        style={{
+                          writingMode: "vertical-rl",
+                          transform: "rotate(180deg)",
+                          maxHeight: 160,
+                        }}
+                      >
+                        {cls.name}
+                      </div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {matrix.rows.map(({ track, cells }) => (
+                  <tr key={track.id}>
+                    <th
+                      className={`position-sticky start-0 bg-dark small fw-normal text-truncate ${track.id === selectedTrackId ? "text-info" : ""}`}
+                      style={{ maxWidth: 220, zIndex: 1 }}
+                      title={track.name}
+                    >
+                      {track.name}
+                    </th>
+                    {cells.map((cell) => {
+                      const selected =
+                        cell.classid === selectedClassId &&
+                        cell.trackid === selectedTrackId;
+                      const border = FIT_COLORS[cell.fit];
+                      return (
+                        <td
+                          key={cell.classid}
+                          className="position-relative p-0 text-center small"
+                          title={cellTitle(cell, track.name)}
+                          onClick={() => onSelect(cell.classid, cell.trackid)}
+                          style={{
+                            width: CELL_SIZE,
+                            height: CELL_SIZE,
+                            cursor: "pointer",
+                            backgroundColor: cellBackground(cell),
+                            boxShadow: border
+                              ? `inset 0 0 0 2px ${border}`
+                              : undefined,
+                            outline: selected
+                              ? "2px solid var(--bs-light)"
+                              : undefined,
+                            opacity: hasCoverageData(cell) ? 1 : 0.6,
+                          }}
+                        >
+                          {cell.sampledLevels > 0 && cell.sampledLevels}
+                          {cell.playerLaps > 0 && (
+                            <Marker color="var(--bs-light)" corner="top" />
+                          )}
+                          {cell.generatedLevels > 0 && (
+                            <Marker color="var(--bs-purple)" corner="bottom" />
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+          </div>
+        )}
+      </Modal.Body>
+    </Modal>
+  );
+};
+
+export default CoverageMatrixModal;
@@ -0,0 +1,167 @@
+import { faChevronDown } from "@fortawesome/free-solid-svg-icons/faChevronDown";
+import { faChevronRight } from "@fortawesome/free-solid-svg-icons/faChevronRight";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { Fragment, useMemo, useState, type KeyboardEvent } from "react";
+import { Badge, Button, Form, Table } from "react-bootstrap";
+import type { DriverAlias, ParsedRace } from "../types/raceResults";
+import {
+  buildRaceKey,
+  getDriverEntries,
+  getRaceLabel,
+} from "../utils/standingsCalculator";
+
+interface DriverAliasesPanelProps {
+  readonly races: ParsedRace[];
+  readonly aliases: DriverAlias[];
+  readonly onChange: (aliases: DriverAlias[]) => void;
+}
+
+interface AliasInputProps {
+  readonly value: string;
+  readonly placeholder: string;
+  readonly onCommit: (identity: string) => void;
+}
+
+// Commits on blur or Enter so the standings are not rebuilt on every keystroke
+const AliasInput = ({ value, placeholder, onCommit }: AliasInputProps) => {
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") e.currentTarget.blur();
+  };
+
+  return (
+    <Form.Control
+      key={value}
+      type="text"
+      size="sm"
+      defaultValue={value}
+      placeholder={placeholder}
+      onBlur={(e) => {
+        const identity = e.target.value.trim();
+        if (identity !== value) onCommit(identity);
+      }}
+      onKeyDown={handleKeyDown}
+    />
+  );
+};
+
+const DriverAliasesPanel = ({
+  races,
+  aliases,
+  onChange,
+}: DriverAliasesPanelProps) => {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const entries = useMemo(() => getDriverEntries(races), [races]);
+  const raceByKey = useMemo(
+    () => new Map(races.map((race) => [buildRaceKey(race), race])),
+    [races],
+  );
+
+  const findAlias = (sourceKey: string, raceId?: string) =>
+    aliases.find((a) => a.sourceKey === sourceKey && a.raceId === raceId)
+      ?.identity ?? "";
+
+  // An empty identity removes the alias
+  const setAlias = (sourceKey: string, identity: string, raceId?: string) => {
+    const remaining = aliases.filter(
+      (a) => !(a.sourceKey === sourceKey && a.raceId === raceId),
+    );
+    onChange(
+      identity
+        ? [...remaining, { sourceKey, identity, ...(raceId && { raceId }) }]
+        : remaining,
+    );
+  };
+
+  const toggleExpanded = (sourceKey: string) => {
+    const updated = new Set(expanded);
+    if (updated.has(sourceKey)) updated.delete(sourceKey);
+    else updated.add(sourceKey);
+    setExpanded(updated);
+  };
+
+  return (
+    <>
+      <p className="text-white-50 small mb-2">
+        Drivers are matched by their RaceRoom user id when available, otherwise
+        by name. Give several entries the same name under "Counts as" to merge
+        them, or expand an entry to assign single races to another driver.
+      </p>
+      <Table size="sm" variant="dark" className="mb-0" responsive>
+        <thead>
+          <tr>
+            <th style={{ width: 32 }} />
+            <th>Driver</th>
+            <th>Id</th>
+            <th>Races</th>
+            <th style={{ width: "35%" }}>Counts as</th>
+          </tr>
+        </thead>
+        <tbody>
+          {entries.map((entry) => {
+            const isExpanded = expanded.has(entry.sourceKey);
+            return (
+              <Fragment key={entry.sourceKey}>
+                <tr>
+                  <td>
+                    <Button
+                      variant="link"
+                      size="sm"
+                      className="p-0 text-white-50"
+                      onClick={() => toggleExpanded(entry.sourceKey)}
+                      title="Assign single races"
+                    >
+                      <FontAwesomeIcon
+                        icon={isExpanded ? faChevronDown : faChevronRight}
+                      />
+                    </Button>
+                  </td>
+                  <td>{entry.names.join(" / ")}</td>
+                  <td>
+                    {entry.userId === undefined ? (
+                      <Badge bg="secondary">name</Badge>
+                    ) : (
+                      <Badge bg="info">{entry.userId}</Badge>
+                    )}
+                  </td>
+                  <td>{entry.raceIds.length}</td>
+                  <td>
+                    <AliasInput
+                      value={findAlias(entry.sourceKey)}
+                      placeholder={entry.names[entry.names.length - 1]}
+                      onCommit={(identity) =>
+                        setAlias(entry.sourceKey, identity)
+                      }
+                    />
+                  </td>
+                </tr>
+                {isExpanded &&
+                  entry.raceIds.map((raceId) => {
+                    const race = raceByKey.get(raceId);
+                    return (
+                      <tr key={`${entry.sourceKey}-${raceId}`}>
+                        <td />
+                        <td colSpan={3} className="small text-white-50 ps-4">
+                          {race ? getRaceLabel(race) : raceId}
+                        </td>
+                        <td>
+                          <AliasInput
+                            value={findAlias(entry.sourceKey, raceId)}
+                            placeholder="Same as above"
+                            onCommit={(identity) =>
+                              setAlias(entry.sourceKey, identity, raceId)
+                            }
+                          />
+                        </td>
+                      </tr>
+                    );
+                  })}
+              </Fragment>
+            );
+          })}
+        </tbody>
+      </Table>
+    </>
+  );
+};
+
+export default DriverAliasesPanel;
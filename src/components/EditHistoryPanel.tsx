@@ -0,0 +1,84 @@
+import { faRotateLeft } from "@fortawesome/free-solid-svg-icons/faRotateLeft";
+import { faRotateRight } from "@fortawesome/free-solid-svg-icons/faRotateRight";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { Button, Card, ListGroup } from "react-bootstrap";
+import type { HistoryEntry } from "../hooks/useEditHistory";
+
+interface EditHistoryPanelProps {
+  entries: HistoryEntry[];
+  index: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onGoTo: (index: number) => void;
+}
+
+const EditHistoryPanel = ({
+  entries,
+  index,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onGoTo,
+}: EditHistoryPanelProps) => {
+  return (
+    <Card bg="dark" text="white" className="border-secondary mb-3">
+      <Card.Header className="d-flex justify-content-between align-items-center">
+        <span className="fw-semibold">
+          Edit History{" "}
+          <span className="small text-white-50">
+            ({index + 1}/{entries.length})
+          </span>
+        </span>
+        <div className="d-flex gap-2">
+          <Button
+            variant="outline-light"
+            size="sm"
+            disabled={!canUndo}
+            onClick={onUndo}
+            title={canUndo ? `Undo: ${entries[index].label}` : undefined}
+          >
+            <FontAwesomeIcon icon={faRotateLeft} className="me-1" />
+            Undo
+          </Button>
+          <Button
+            variant="outline-light"
+            size="sm"
+            disabled={!canRedo}
+            onClick={onRedo}
+            title={canRedo ? `Redo: ${entries[index + 1].label}` : undefined}
+          >
+            <FontAwesomeIcon icon={faRotateRight} className="me-1" />
+            Redo
+          </Button>
+        </div>
+      </Card.Header>
+      <ListGroup
+        variant="flush"
+        className="overflow-auto"
+        style={{ maxHeight: 180 }}
+      >
+        {entries.map((entry, idx) => (
+          <ListGroup.Item
+            key={`${entry.timestamp}-${idx}`}
+            action
+            active={idx === index}
+            onClick={() => onGoTo(idx)}
+            className={`d-flex justify-content-between small ${
+              idx > index ? "text-white-50" : ""
+            }`}
+          >
+            <span>{entry.label}</span>
+            <span className="text-nowrap ms-2">
+              {new Date(entry.timestamp).toLocaleTimeString()}
+            </span>
+          </ListGroup.Item>
+        ))}
+      </ListGroup>
+    </Card>
+  );
+};
+
+export default EditHistoryPanel;
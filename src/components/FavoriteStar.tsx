@@ -0,0 +1,24 @@
+import { faStar } from "@fortawesome/free-solid-svg-icons/faStar";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+
+interface FavoriteStarProps {
+  active: boolean;
+  onToggle: () => void;
+}
+
+const FavoriteStar = ({ active, onToggle }: FavoriteStarProps) => (
+  <FontAwesomeIcon
+    icon={faStar}
+    role="button"
+    aria-label={active ? "Remove from favourites" : "Add to favourites"}
+    title={active ? "Remove from favourites" : "Add to favourites"}
+    className={active ? "text-warning" : "text-white-50 opacity-50"}
+    onClick={(e) => {
+      // Do not select the row the star sits in
+      e.stopPropagation();
+      onToggle();
+    }}
+  />
+);
+
+export default FavoriteStar;
@@ -4,12 +4,16 @@ import type { Assets } from "../types";
 
 interface FileUploadSectionProps {
   onXmlUpload: (event: ChangeEvent<HTMLInputElement>) => void;
+  onXmlMerge: (event: ChangeEvent<HTMLInputElement>) => void;
+  onXmlCompare: (event: ChangeEvent<HTMLInputElement>) => void;
   assets: Assets | null;
   xmlInputRef: RefObject<HTMLInputElement | null>;
 }
 
 const FileUploadSection = ({
   onXmlUpload,
+  onXmlMerge,
+  onXmlCompare,
   xmlInputRef,
 }: FileUploadSectionProps) => {
   return (
@@ -25,6 +29,33 @@ const FileUploadSection = ({
             ref={xmlInputRef}
           />
         </Form.Group>
+        <Form.Group className="mt-3">
+          <Form.Label>Merge AI Adaptation XML files</Form.Label>
+          <Form.Control
+            type="file"
+            accept=".xml"
+            multiple
+            onChange={onXmlMerge}
+          />
+          <Form.Text className="text-white-50">
+            Select several aiadaptation.xml files (e.g. from different PCs) to
+            combine them. Lap times are averaged weighted by sampled races and
+            replace the loaded data.
+          </Form.Text>
+        </Form.Group>
+        <Form.Group className="mt-3">
+          <Form.Label>Compare two AI Adaptation XML files</Form.Label>
+          <Form.Control
+            type="file"
+            accept=".xml"
+            multiple
+            onChange={onXmlCompare}
+          />
+          <Form.Text className="text-white-50">
+            Select two versions of aiadaptation.xml to list the AI levels and
+            player times that differ. The older file is used as the baseline.
+          </Form.Text>
+        </Form.Group>
       </div>
     </Form>
   );
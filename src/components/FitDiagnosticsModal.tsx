@@ -0,0 +1,189 @@
+import { faFileCsv } from "@fortawesome/free-solid-svg-icons/faFileCsv";
+import { faFileCode } from "@fortawesome/free-solid-svg-icons/faFileCode";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { useMemo, useState } from "react";
+import { Badge, Button, ButtonGroup, Modal, Table } from "react-bootstrap";
+import type { Assets, FitDiagnostics } from "../types";
+import {
+  FIT_REJECTION_LABELS,
+  buildFitReport,
+  downloadFitReport,
+  fitReportToCSV,
+  fitReportToJSON,
+} from "../utils/fitReport";
+import { FIT_MODEL_LABELS } from "../utils/fitting";
+
+type StatusFilter = "all" | "accepted" | "rejected";
+
+interface FitDiagnosticsModalProps {
+  show: boolean;
+  assets: Assets | null;
+  diagnostics: FitDiagnostics[];
+  onHide: () => void;
+  onSelect: (classId: string, trackId: string) => void;
+}
+
+const formatNumber = (value: number | undefined, digits: number, unit = "") =>
+  value === undefined ? "-" : `${value.toFixed(digits)}${unit}`;
+
+const FitDiagnosticsModal = ({
+  show,
+  assets,
+  diagnostics,
+  onHide,
+  onSelect,
+}: FitDiagnosticsModalProps) => {
+  const [filter, setFilter] = useState<StatusFilter>("all");
+
+  const report = useMemo(
+    () => buildFitReport(diagnostics, assets),
+    [diagnostics, assets],
+  );
+  const acceptedCount = report.filter((row) => row.accepted).length;
+  const rows = report.filter(
+    (row) => filter === "all" || (filter === "accepted") === row.accepted,
+  );
+
+  return (
+    <Modal show={show} onHide={onHide} size="xl" data-bs-theme="dark">
+      <Modal.Header closeButton className="bg-dark border-secondary">
+        <Modal.Title>Fit Diagnostics</Modal.Title>
+      </Modal.Header>
+      <Modal.Body className="bg-dark text-white">
+        <div className="d-flex flex-wrap justify-content-between align-items-center gap-2 mb-3">
+          <ButtonGroup size="sm">
+            {(["all", "accepted", "rejected"] as const).map((value) => (
+              <Button
+                key={value}
+                variant={filter === value ? "primary" : "outline-secondary"}
+                onClick={() => setFilter(value)}
+              >
+                {value === "all" && `All (${report.length})`}
+                {value === "accepted" && `Accepted (${acceptedCount})`}
+                {value === "rejected" &&
+                  `Rejected (${report.length - acceptedCount})`}
+              </Button>
+            ))}
+          </ButtonGroup>
+          <div className="d-flex gap-2">
+            <Button
+              size="sm"
+              variant="outline-light"
+              disabled={report.length === 0}
+              onClick={() =>
+                downloadFitReport(
+                  fitReportToCSV(report),
+                  "fit-diagnostics.csv",
+                  "text/csv",
+                )
+              }
+            >
+              <FontAwesomeIcon icon={faFileCsv} className="me-1" />
+              Export CSV
+            </Button>
+            <Button
+              size="sm"
+              variant="outline-light"
+              disabled={report.length === 0}
+              onClick={() =>
+                downloadFitReport(
+                  fitReportToJSON(report),
+                  "fit-diagnostics.json",
+                  "application/json",
+                )
+              }
+            >
+              <FontAwesomeIcon icon={faFileCode} className="me-1" />
+              Export JSON
+            </Button>
+          </div>
+        </div>
+
+        <div className="table-responsive" style={{ maxHeight: 480 }}>
+          <Table hover size="sm" variant="dark" className="mb-0 align-middle">
+            <thead className="table-dark position-sticky top-0">
+              <tr>
+                <th>Class</th>
+                <th>Track</th>
+                <th>Status</th>
+                <th>Model</th>
+                <th className="text-end">Coefficients</th>
+                <th className="text-end">R²</th>
+                <th className="text-end">RMSE</th>
+                <th className="text-end">±95%</th>
+                <th className="text-end">Passed</th>
+                <th className="text-end">Levels</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr
+                  key={`${row.classid}-${row.trackid}`}
+                  onClick={() => onSelect(row.classid, row.trackid)}
+                  style={{ cursor: "pointer" }}
+                  title="Select this class and track"
+                >
+                  <td>{row.className}</td>
+                  <td>{row.trackName}</td>
+                  <td>
+                    {row.accepted ? (
+                      <Badge bg="success">Accepted</Badge>
+                    ) : (
+                      <Badge bg="danger">
+                        {row.rejection
+                          ? FIT_REJECTION_LABELS[row.rejection]
+                          : "Rejected"}
+                      </Badge>
+                    )}
+                    {row.extrapolated && (
+                      <Badge bg="warning" text="dark" className="ms-1">
+                        Extrapolated
+                      </Badge>
+                    )}
+                  </td>
+                  <td>{row.model ? FIT_MODEL_LABELS[row.model] : "-"}</td>
+                  <td className="text-end font-monospace small">
+                    {row.coefficients
+                      ? [
+                          row.coefficients.a.toFixed(3),
+                          row.coefficients.b.toFixed(4),
+                          row.coefficients.c?.toExponential(2),
+                        ]
+                          .filter(Boolean)
+                          .join(" / ")
+                      : "-"}
+                  </td>
+                  <td className="text-end">{formatNumber(row.rSquared, 3)}</td>
+                  <td className="text-end">{formatNumber(row.rmse, 3, "s")}</td>
+                  <td className="text-end">{formatNumber(row.band, 3, "s")}</td>
+                  <td className="text-end">
+                    {row.passed}/{row.tested}
+                  </td>
+                  <td className="text-end">{row.sampledLevels}</td>
+                </tr>
+              ))}
+              {rows.length === 0 && (
+                <tr>
+                  <td colSpan={10} className="text-center text-white-50">
+                    No class/track pairs to show
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </Table>
+        </div>
+        <p className="text-white-50 small mt-2 mb-0">
+          Coefficients are a / b / c for lap time = a + b·AI + c·AI². Passed
+          counts points within the max deviation pct of the measured time.
+        </p>
+      </Modal.Body>
+      <Modal.Footer className="bg-dark border-secondary">
+        <Button variant="secondary" onClick={onHide}>
+          Close
+        </Button>
+      </Modal.Footer>
+    </Modal>
+  );
+};
+
+export default FitDiagnosticsModal;
@@ -0,0 +1,129 @@
+import { faDownload } from "@fortawesome/free-solid-svg-icons/faDownload";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { Badge, Button, Modal, Table } from "react-bootstrap";
+import type { Assets } from "../types";
+import { makeTime } from "../utils/timeUtils";
+import { MERGE_CONFLICT_PCT, type MergeResult } from "../utils/xmlMerger";
+
+interface MergeReportModalProps {
+  show: boolean;
+  assets: Assets | null;
+  result: MergeResult | null;
+  onHide: () => void;
+  onDownload: () => void;
+}
+
+const MergeReportModal = ({
+  show,
+  assets,
+  result,
+  onHide,
+  onDownload,
+}: MergeReportModalProps) => {
+  if (!result) return null;
+
+  return (
+    <Modal show={show} onHide={onHide} size="lg" data-bs-theme="dark">
+      <Modal.Header closeButton className="bg-dark border-secondary">
+        <Modal.Title>Merge Report</Modal.Title>
+      </Modal.Header>
+      <Modal.Body className="bg-dark text-white">
+        <h6 className="mb-2">Sources</h6>
+        <Table size="sm" variant="dark" className="mb-3">
+          <thead>
+            <tr>
+              <th>File</th>
+              <th className="text-end">AI levels</th>
+              <th className="text-end">Player laps</th>
+            </tr>
+          </thead>
+          <tbody>
+            {result.sources.map((source, idx) => (
+              <tr key={idx}>
+                <td>
+                  {source.name}
+                  {!source.valid && (
+                    <Badge bg="danger" className="ms-2">
+                      not read
+                    </Badge>
+                  )}
+                </td>
+                <td className="text-end">{source.aiLevels}</td>
+                <td className="text-end">{source.playerLaps}</td>
+              </tr>
+            ))}
+          </tbody>
+        </Table>
+
+        <h6 className="mb-2">
+          Conflicts{" "}
+          <Badge bg={result.conflicts.length ? "warning" : "success"}>
+            {result.conflicts.length}
+          </Badge>
+        </h6>
+        {result.conflicts.length === 0 ? (
+          <p className="text-white-50 small">
+            No AI level differs by more than {MERGE_CONFLICT_PCT}% between
+            files.
+          </p>
+        ) : (
+          <div className="table-responsive" style={{ maxHeight: 320 }}>
+            <Table size="sm" variant="dark" className="mb-0 align-middle">
+              <thead className="table-dark position-sticky top-0">
+                <tr>
+                  <th>Class / Track</th>
+                  <th>AI</th>
+                  <th>Per file (races)</th>
+                  <th className="text-end">Merged</th>
+                  <th className="text-end">Spread</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.conflicts.map((conflict) => (
+                  <tr
+                    key={`${conflict.classid}-${conflict.trackid}-${conflict.ailevel}`}
+                  >
+                    <td>
+                      {assets?.classes?.[conflict.classid]?.name ||
+                        conflict.classid}
+                      <div className="small text-white-50">
+                        {assets?.tracks?.[conflict.trackid]?.name ||
+                          conflict.trackid}
+                      </div>
+                    </td>
+                    <td>{conflict.ailevel}</td>
+                    <td className="small">
+                      {conflict.entries.map((entry, idx) => (
+                        <div key={idx}>
+                          {entry.source}: {makeTime(entry.time, ":")} (
+                          {entry.samples})
+                        </div>
+                      ))}
+                    </td>
+                    <td className="text-end">
+                      {makeTime(conflict.mergedTime, ":")}
+                    </td>
+                    <td className="text-end text-warning">
+                      {conflict.spreadPct.toFixed(1)}%
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+          </div>
+        )}
+      </Modal.Body>
+      <Modal.Footer className="bg-dark border-secondary">
+        <Button variant="secondary" onClick={onHide}>
+          Close
+        </Button>
+        <Button variant="primary" onClick={onDownload}>
+          <FontAwesomeIcon icon={faDownload} className="me-2" />
+          Download merged XML
+        </Button>
+      </Modal.Footer>
+    </Modal>
+  );
+};
+
+export default MergeReportModal;
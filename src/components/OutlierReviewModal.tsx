@@ -0,0 +1,309 @@
+import { useState } from "react";
+import { Badge, Button, Col, Form, Modal, Row, Table } from "react-bootstrap";
+import { useConfigStore } from "../store/configStore";
+import type { Assets, Database, OutlierMethod, PlayerTimes } from "../types";
+import {
+  findMonotonicityBreaks,
+  findPlayerTimeOutliers,
+  type AILevelAnomaly,
+  type OutlierSettings,
+  type PlayerTimeOutlier,
+} from "../utils/outliers";
+import { makeTime } from "../utils/timeUtils";
+
+interface OutlierReviewModalProps {
+  show: boolean;
+  assets: Assets | null;
+  database: Database;
+  playerTimes: PlayerTimes;
+  onHide: () => void;
+  onConfirm: (laps: PlayerTimeOutlier[], levels: AILevelAnomaly[]) => void;
+}
+
+const toggle = (set: Set<string>, value: string) => {
+  const updated = new Set(set);
+  if (updated.has(value)) updated.delete(value);
+  else updated.add(value);
+  return updated;
+};
+
+const OutlierReviewModal = ({
+  show,
+  assets,
+  database,
+  playerTimes,
+  onHide,
+  onConfirm,
+}: OutlierReviewModalProps) => {
+  const { config } = useConfigStore();
+  const [settings, setSettings] = useState<OutlierSettings>({
+    method: config.outlierMethod,
+    madThreshold: config.outlierMadThreshold,
+    pctOffBest: config.outlierPctOffBest,
+  });
+  // Suggestions are accepted unless rejected here
+  const [rejectedLaps, setRejectedLaps] = useState<Set<string>>(new Set());
+  const [rejectedLevels, setRejectedLevels] = useState<Set<string>>(new Set());
+
+  const className = (id: string) => assets?.classes?.[id]?.name || id;
+  const trackName = (id: string) => assets?.tracks?.[id]?.name || id;
+
+  const laps = findPlayerTimeOutliers(playerTimes, settings).map(
+    (outlier, idx) => ({
+      key: `${outlier.classid}|${outlier.trackid}|${idx}`,
+      outlier,
+    }),
+  );
+  const levels = findMonotonicityBreaks(database).map((anomaly) => ({
+    key: `${anomaly.classid}|${anomaly.trackid}|${anomaly.ailevel}`,
+    anomaly,
+  }));
+  const acceptedLaps = laps.filter((lap) => !rejectedLaps.has(lap.key));
+  const acceptedLevels = levels.filter(
+    (level) => !rejectedLevels.has(level.key),
+  );
+
+  const updateSettings = (update: Partial<OutlierSettings>) => {
+    setSettings({ ...settings, ...update });
+    // Lap keys depend on the detected list, so rejections no longer apply
+    setRejectedLaps(new Set());
+  };
+
+  const threshold =
+    settings.method === "mad" ? settings.madThreshold : settings.pctOffBest;
+
+  return (
+    <Modal show={show} onHide={onHide} size="xl" data-bs-theme="dark">
+      <Modal.Header closeButton className="bg-dark border-secondary">
+        <Modal.Title>Review Data Cleanup</Modal.Title>
+      </Modal.Header>
+      <Modal.Body className="bg-dark text-white">
+        <div className="d-flex justify-content-between align-items-center mb-2">
+          <h6 className="mb-0">
+            Player lap time outliers{" "}
+            <Badge
+              bg={laps.length ? "warning" : "success"}
+              text={laps.length ? "dark" : undefined}
+            >
+              {acceptedLaps.length}/{laps.length}
+            </Badge>
+          </h6>
+          <div className="d-flex gap-2">
+            <Button
+              variant="outline-secondary"
+              size="sm"
+              onClick={() => setRejectedLaps(new Set())}
+            >
+              Accept all
+            </Button>
+            <Button
+              variant="outline-secondary"
+              size="sm"
+              onClick={() => setRejectedLaps(new Set(laps.map((l) => l.key)))}
+            >
+              Reject all
+            </Button>
+          </div>
+        </div>
+        <Row className="g-3 align-items-end mb-2">
+          <Col md={5}>
+            <Form.Group controlId="outlier-method">
+              <Form.Label className="small mb-1">Detection</Form.Label>
+              <Form.Select
+                size="sm"
+                value={settings.method}
+                onChange={(e) =>
+                  updateSettings({ method: e.target.value as OutlierMethod })
+                }
+              >
+                <option value="mad">Median absolute deviation</option>
+                <option value="pctOffBest">Percentage off the best lap</option>
+              </Form.Select>
+            </Form.Group>
+          </Col>
+          <Col md={3}>
+            <Form.Group controlId="outlier-threshold">
+              <Form.Label className="small mb-1">
+                {settings.method === "mad"
+                  ? "Modified z-score above"
+                  : "Slower than best by (%)"}
+              </Form.Label>
+              <Form.Control
+                type="number"
+                size="sm"
+                min={0}
+                step={0.5}
+                value={threshold}
+                onChange={(e) => {
+                  const val = Number(e.target.value);
+                  if (!Number.isFinite(val) || val < 0) return;
+                  updateSettings(
+                    settings.method === "mad"
+                      ? { madThreshold: val }
+                      : { pctOffBest: val },
+                  );
+                }}
+              />
+            </Form.Group>
+          </Col>
+        </Row>
+        <div className="table-responsive mb-4" style={{ maxHeight: 240 }}>
+          <Table size="sm" variant="dark" className="mb-0 align-middle">
+            <thead className="table-dark position-sticky top-0">
+              <tr>
+                <th style={{ width: 32 }} />
+                <th>Class</th>
+                <th>Track</th>
+                <th className="text-end">Lap</th>
+                <th className="text-end">Best</th>
+                <th className="text-end">
+                  {settings.method === "mad" ? "z-score" : "Off best"}
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {laps.map(({ key, outlier }) => (
+                <tr
+                  key={key}
+                  className={rejectedLaps.has(key) ? "text-white-50" : ""}
+                >
+                  <td>
+                    <Form.Check
+                      type="checkbox"
+                      aria-label="Remove lap"
+                      checked={!rejectedLaps.has(key)}
+                      onChange={() =>
+                        setRejectedLaps(toggle(rejectedLaps, key))
+                      }
+                    />
+                  </td>
+                  <td>{className(outlier.classid)}</td>
+                  <td>{trackName(outlier.trackid)}</td>
+                  <td className="text-end">{makeTime(outlier.time, ":")}</td>
+                  <td className="text-end">{makeTime(outlier.best, ":")}</td>
+                  <td className="text-end">
+                    {settings.method === "mad"
+                      ? outlier.score.toFixed(1)
+                      : `${outlier.score.toFixed(1)}%`}
+                  </td>
+                </tr>
+              ))}
+              {laps.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="text-center text-white-50">
+                    No outlier laps found
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </Table>
+        </div>
+
+        <div className="d-flex justify-content-between align-items-center mb-2">
+          <h6 className="mb-0">
+            AI levels out of order{" "}
+            <Badge
+              bg={levels.length ? "warning" : "success"}
+              text={levels.length ? "dark" : undefined}
+            >
+              {acceptedLevels.length}/{levels.length}
+            </Badge>
+          </h6>
+          <div className="d-flex gap-2">
+            <Button
+              variant="outline-secondary"
+              size="sm"
+              onClick={() => setRejectedLevels(new Set())}
+            >
+              Accept all
+            </Button>
+            <Button
+              variant="outline-secondary"
+              size="sm"
+              onClick={() =>
+                setRejectedLevels(new Set(levels.map((l) => l.key)))
+              }
+            >
+              Reject all
+            </Button>
+          </div>
+        </div>
+        <p className="small text-white-50 mb-2">
+          Higher AI levels should lap faster. Each listed level is out of order
+          with an adjacent level and is the one of the pair furthest from the
+          track&apos;s trend.
+        </p>
+        <div className="table-responsive" style={{ maxHeight: 240 }}>
+          <Table size="sm" variant="dark" className="mb-0 align-middle">
+            <thead className="table-dark position-sticky top-0">
+              <tr>
+                <th style={{ width: 32 }} />
+                <th>Class</th>
+                <th>Track</th>
+                <th>AI</th>
+                <th className="text-end">Time (races)</th>
+                <th className="text-end">Neighbour</th>
+              </tr>
+            </thead>
+            <tbody>
+              {levels.map(({ key, anomaly }) => (
+                <tr
+                  key={key}
+                  className={rejectedLevels.has(key) ? "text-white-50" : ""}
+                >
+                  <td>
+                    <Form.Check
+                      type="checkbox"
+                      aria-label="Remove AI level"
+                      checked={!rejectedLevels.has(key)}
+                      onChange={() =>
+                        setRejectedLevels(toggle(rejectedLevels, key))
+                      }
+                    />
+                  </td>
+                  <td>{className(anomaly.classid)}</td>
+                  <td>{trackName(anomaly.trackid)}</td>
+                  <td>{anomaly.ailevel}</td>
+                  <td className="text-end">
+                    {makeTime(anomaly.time, ":")} ({anomaly.samples})
+                  </td>
+                  <td className="text-end">
+                    AI {anomaly.neighbour}:{" "}
+                    {makeTime(anomaly.neighbourTime, ":")}
+                  </td>
+                </tr>
+              ))}
+              {levels.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="text-center text-white-50">
+                    All AI levels get faster with the AI level
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </Table>
+        </div>
+      </Modal.Body>
+      <Modal.Footer className="bg-dark border-secondary">
+        <Button variant="secondary" onClick={onHide}>
+          Cancel
+        </Button>
+        <Button
+          variant="primary"
+          disabled={acceptedLaps.length + acceptedLevels.length === 0}
+          onClick={() =>
+            onConfirm(
+              acceptedLaps.map((lap) => lap.outlier),
+              acceptedLevels.map((level) => level.anomaly),
+            )
+          }
+        >
+          Remove {acceptedLaps.length} lap(s) and {acceptedLevels.length} AI
+          level(s)
+        </Button>
+      </Modal.Footer>
+    </Modal>
+  );
+};
+
+export default OutlierReviewModal;
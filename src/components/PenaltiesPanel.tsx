@@ -0,0 +1,209 @@
+import { faPlus } from "@fortawesome/free-solid-svg-icons/faPlus";
+import { faXmark } from "@fortawesome/free-solid-svg-icons/faXmark";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { useState } from "react";
+import { Button, Col, Form, ListGroup, Row } from "react-bootstrap";
+import {
+  PENALTY_TYPE_LABELS,
+  type ParsedRace,
+  type PenaltyType,
+  type RacePenalty,
+} from "../types/raceResults";
+import {
+  buildRaceKey,
+  formatPenalty,
+  getRaceLabel,
+  getSourceKeys,
+} from "../utils/standingsCalculator";
+
+interface PenaltiesPanelProps {
+  readonly races: ParsedRace[];
+  readonly penalties: RacePenalty[];
+  readonly onChange: (penalties: RacePenalty[]) => void;
+}
+
+const PenaltiesPanel = ({
+  races,
+  penalties,
+  onChange,
+}: PenaltiesPanelProps) => {
+  const [raceId, setRaceId] = useState("");
+  const [driver, setDriver] = useState("");
+  const [type, setType] = useState<PenaltyType>("time");
+  const [value, setValue] = useState("5");
+  const [note, setNote] = useState("");
+
+  const raceByKey = new Map(races.map((race) => [buildRaceKey(race), race]));
+  const selectedRace = raceByKey.get(raceId);
+  // Keyed like the standings, so same-named AI entries stay apart
+  const drivers = new Map<string, { name: string; label: string }>();
+  for (const [slot, sourceKey] of selectedRace
+    ? getSourceKeys(selectedRace)
+    : []) {
+    const occurrence = sourceKey.match(/#(\d+)$/)?.[1];
+    drivers.set(sourceKey, {
+      name: slot.Driver,
+      label: occurrence ? `${slot.Driver} (#${occurrence})` : slot.Driver,
+    });
+  }
+  const driverOptions = [...drivers].sort(([, a], [, b]) =>
+    a.label.localeCompare(b.label),
+  );
+  const needsValue = type !== "disqualification";
+  const numericValue = Number(value);
+  const canAdd =
+    !!selectedRace &&
+    drivers.has(driver) &&
+    (!needsValue || (Number.isFinite(numericValue) && numericValue > 0));
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    onChange([
+      ...penalties,
+      {
+        id: crypto.randomUUID(),
+        raceId,
+        driver: drivers.get(driver)!.name,
+        sourceKey: driver,
+        type,
+        value: needsValue ? numericValue : 0,
+        note: note.trim() || undefined,
+      },
+    ]);
+    setNote("");
+  };
+
+  return (
+    <>
+      <Row className="g-2 align-items-end">
+        <Col md={4}>
+          <Form.Group controlId="penaltyRace">
+            <Form.Label className="text-white small mb-1">Race</Form.Label>
+            <Form.Select
+              size="sm"
+              value={raceId}
+              onChange={(e) => {
+                setRaceId(e.target.value);
+                setDriver("");
+              }}
+            >
+              <option value="">Select race...</option>
+              {[...raceByKey].map(([key, race]) => (
+                <option key={key} value={key}>
+                  {getRaceLabel(race)}
+                </option>
+              ))}
+            </Form.Select>
+          </Form.Group>
+        </Col>
+        <Col md={3}>
+          <Form.Group controlId="penaltyDriver">
+            <Form.Label className="text-white small mb-1">Driver</Form.Label>
+            <Form.Select
+              size="sm"
+              value={driver}
+              disabled={!selectedRace}
+              onChange={(e) => setDriver(e.target.value)}
+            >
+              <option value="">Select driver...</option>
+              {driverOptions.map(([sourceKey, { label }]) => (
+                <option key={sourceKey} value={sourceKey}>
+                  {label}
+                </option>
+              ))}
+            </Form.Select>
+          </Form.Group>
+        </Col>
+        <Col md={3}>
+          <Form.Group controlId="penaltyType">
+            <Form.Label className="text-white small mb-1">Decision</Form.Label>
+            <Form.Select
+              size="sm"
+              value={type}
+              onChange={(e) => setType(e.target.value as PenaltyType)}
+            >
+              {Object.entries(PENALTY_TYPE_LABELS).map(([key, label]) => (
+                <option key={key} value={key}>
+                  {label}
+                </option>
+              ))}
+            </Form.Select>
+          </Form.Group>
+        </Col>
+        <Col md={2}>
+          <Form.Group controlId="penaltyValue">
+            <Form.Label className="text-white small mb-1">Value</Form.Label>
+            <Form.Control
+              type="number"
+              size="sm"
+              min={0}
+              step={type === "time" ? 0.1 : 1}
+              value={needsValue ? value : ""}
+              disabled={!needsValue}
+              onChange={(e) => setValue(e.target.value)}
+            />
+          </Form.Group>
+        </Col>
+        <Col md={10}>
+          <Form.Group controlId="penaltyNote">
+            <Form.Label className="text-white small mb-1">Note</Form.Label>
+            <Form.Control
+              type="text"
+              size="sm"
+              placeholder="e.g. Causing a collision, turn 1 lap 3"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </Form.Group>
+        </Col>
+        <Col md={2}>
+          <Button
+            variant="success"
+            size="sm"
+            className="w-100"
+            onClick={handleAdd}
+            disabled={!canAdd}
+          >
+            <FontAwesomeIcon icon={faPlus} className="me-1" />
+            Add
+          </Button>
+        </Col>
+      </Row>
+
+      <ListGroup className="mt-3">
+        {penalties.map((penalty) => {
+          const race = raceByKey.get(penalty.raceId);
+          return (
+            <ListGroup.Item
+              key={penalty.id}
+              className="bg-dark text-white border-secondary d-flex justify-content-between align-items-center py-1"
+            >
+              <span className="small">
+                <strong>{penalty.driver}</strong> •{" "}
+                {race ? getRaceLabel(race) : "Race no longer in championship"} •{" "}
+                {formatPenalty(penalty)}
+              </span>
+              <Button
+                variant="outline-danger"
+                size="sm"
+                onClick={() =>
+                  onChange(penalties.filter((p) => p.id !== penalty.id))
+                }
+                title="Revoke penalty"
+              >
+                <FontAwesomeIcon icon={faXmark} />
+              </Button>
+            </ListGroup.Item>
+          );
+        })}
+        {penalties.length === 0 && (
+          <ListGroup.Item className="bg-dark text-white-50 border-secondary small py-2">
+            No penalties applied: standings use the original results.
+          </ListGroup.Item>
+        )}
+      </ListGroup>
+    </>
+  );
+};
+
+export default PenaltiesPanel;
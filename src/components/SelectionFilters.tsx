@@ -0,0 +1,92 @@
+import { faClockRotateLeft } from "@fortawesome/free-solid-svg-icons/faClockRotateLeft";
+import { faFilter } from "@fortawesome/free-solid-svg-icons/faFilter";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { Button, ButtonGroup } from "react-bootstrap";
+import type { RecentSelection } from "../store/favoritesStore";
+import type { Assets } from "../types";
+import {
+  SELECTION_FILTER_LABELS,
+  type SelectionFilter,
+} from "../utils/listSearch";
+
+interface SelectionFiltersProps {
+  assets: Assets | null;
+  filters: SelectionFilter[];
+  recents: RecentSelection[];
+  selectedClassId: string;
+  selectedTrackId: string;
+  onFiltersChange: (filters: SelectionFilter[]) => void;
+  onSelectRecent: (classId: string, trackId: string) => void;
+  onClearRecents: () => void;
+}
+
+const SelectionFilters = ({
+  assets,
+  filters,
+  recents,
+  selectedClassId,
+  selectedTrackId,
+  onFiltersChange,
+  onSelectRecent,
+  onClearRecents,
+}: SelectionFiltersProps) => {
+  const toggleFilter = (filter: SelectionFilter) =>
+    onFiltersChange(
+      filters.includes(filter)
+        ? filters.filter((f) => f !== filter)
+        : [...filters, filter],
+    );
+
+  return (
+    <div className="d-flex flex-column gap-2 mb-3">
+      <div className="d-flex flex-wrap align-items-center gap-2">
+        <FontAwesomeIcon icon={faFilter} className="text-white-50" />
+        <ButtonGroup size="sm">
+          {(Object.keys(SELECTION_FILTER_LABELS) as SelectionFilter[]).map(
+            (filter) => (
+              <Button
+                key={filter}
+                variant={
+                  filters.includes(filter) ? "primary" : "outline-secondary"
+                }
+                onClick={() => toggleFilter(filter)}
+              >
+                {SELECTION_FILTER_LABELS[filter]}
+              </Button>
+            ),
+          )}
+        </ButtonGroup>
+      </div>
+
+      {recents.length > 0 && (
+        <div className="d-flex flex-wrap align-items-center gap-2">
+          <FontAwesomeIcon
+            icon={faClockRotateLeft}
+            className="text-white-50"
+            title="Recent selections"
+          />
+          {recents.map(({ classid, trackid }) => {
+            const active =
+              classid === selectedClassId && trackid === selectedTrackId;
+            return (
+              <Button
+                key={`${classid}/${trackid}`}
+                size="sm"
+                variant={active ? "info" : "outline-info"}
+                onClick={() => onSelectRecent(classid, trackid)}
+              >
+                {assets?.classes[classid]?.name || classid} -{" "}
+                {assets?.tracks[trackid]?.name || trackid}
+              </Button>
+            );
+          })}
+          <Button size="sm" variant="link" onClick={onClearRecents}>
+            Clear
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SelectionFilters;
@@ -0,0 +1,271 @@
+import { faArrowDown } from "@fortawesome/free-solid-svg-icons/faArrowDown";
+import { faArrowUp } from "@fortawesome/free-solid-svg-icons/faArrowUp";
+import { faPlus } from "@fortawesome/free-solid-svg-icons/faPlus";
+import { faXmark } from "@fortawesome/free-solid-svg-icons/faXmark";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import {
+  Button,
+  ButtonGroup,
+  Col,
+  Form,
+  ListGroup,
+  Row,
+} from "react-bootstrap";
+import {
+  COUNTED_RESULTS_MODE_LABELS,
+  RACE_BONUS_LABELS,
+  TIE_BREAK_RULE_LABELS,
+  type BonusPointsRule,
+  type CountedResultsMode,
+  type StandingsConfig,
+  type TieBreakRule,
+} from "../types/raceResults";
+
+interface StandingsRulesPanelProps {
+  readonly config: StandingsConfig;
+  readonly pointsSystems: Record<string, number[]>;
+  readonly raceCount: number;
+  readonly onChange: (config: StandingsConfig) => void;
+}
+
+const ALL_TIE_BREAK_RULES = Object.keys(
+  TIE_BREAK_RULE_LABELS,
+) as TieBreakRule[];
+
+const StandingsRulesPanel = ({
+  config,
+  pointsSystems,
+  raceCount,
+  onChange,
+}: StandingsRulesPanelProps) => {
+  // The stored table wins so systems removed from Settings stay selectable
+  const pointsSystemOptions = {
+    ...pointsSystems,
+    [config.ruleset]: config.rulepoints,
+  };
+  const unusedRules = ALL_TIE_BREAK_RULES.filter(
+    (rule) => !config.tieBreakers.includes(rule),
+  );
+
+  const handlePointsSystemChange = (ruleset: string) => {
+    const rulepoints = pointsSystemOptions[ruleset];
+    if (!rulepoints) return;
+    onChange({ ...config, ruleset, rulepoints });
+  };
+
+  // "Best 0 results" would discard every race, so best-of starts from all races
+  const setCountedResultsMode = (mode: CountedResultsMode) => {
+    const count =
+      mode === "bestOf" && config.countedResults.count < 1
+        ? Math.max(1, raceCount)
+        : Math.max(1, config.countedResults.count);
+    onChange({ ...config, countedResults: { mode, count } });
+  };
+
+  const setBonusPoints = (key: keyof BonusPointsRule, value: string) => {
+    const points = Number(value);
+    if (!Number.isInteger(points) || points < 0) return;
+    onChange({
+      ...config,
+      bonusPoints: { ...config.bonusPoints, [key]: points },
+    });
+  };
+
+  const setTieBreakers = (tieBreakers: TieBreakRule[]) =>
+    onChange({ ...config, tieBreakers });
+
+  const moveTieBreaker = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= config.tieBreakers.length) return;
+    const updated = [...config.tieBreakers];
+    [updated[index], updated[target]] = [updated[target], updated[index]];
+    setTieBreakers(updated);
+  };
+
+  return (
+    <Row className="g-4">
+      <Col lg={5}>
+        <Form.Group controlId="pointsSystem">
+          <Form.Label className="text-white">Points system</Form.Label>
+          <Form.Select
+            size="sm"
+            value={config.ruleset}
+            onChange={(e) => handlePointsSystemChange(e.target.value)}
+          >
+            {Object.entries(pointsSystemOptions).map(([name, points]) => (
+              <option key={name} value={name}>
+                {name} ({points.join("-")})
+              </option>
+            ))}
+          </Form.Select>
+          <Form.Text className="text-white-50">
+            Custom points systems can be defined in Settings.
+          </Form.Text>
+        </Form.Group>
+        <Form.Group controlId="countedResults" className="mt-3">
+          <Form.Label className="text-white">Counted results</Form.Label>
+          <div className="d-flex gap-2">
+            <Form.Select
+              size="sm"
+              value={config.countedResults.mode}
+              onChange={(e) =>
+                setCountedResultsMode(e.target.value as CountedResultsMode)
+              }
+            >
+              {Object.entries(COUNTED_RESULTS_MODE_LABELS).map(
+                ([mode, label]) => (
+                  <option key={mode} value={mode}>
+                    {label}
+                  </option>
+                ),
+              )}
+            </Form.Select>
+            <Form.Control
+              type="number"
+              size="sm"
+              min={1}
+              step={1}
+              style={{ maxWidth: 90 }}
+              value={config.countedResults.count}
+              disabled={config.countedResults.mode === "all"}
+              onChange={(e) => {
+                const count = Number(e.target.value);
+                if (!Number.isInteger(count) || count < 1) return;
+                onChange({
+                  ...config,
+                  countedResults: { ...config.countedResults, count },
+                });
+              }}
+            />
+          </div>
+          <Form.Text className="text-white-50">
+            Dropped driver scores are struck through in the race grid.
+          </Form.Text>
+        </Form.Group>
+        <Form.Group controlId="classificationThreshold" className="mt-3">
+          <Form.Label className="text-white">
+            Classification threshold (% of leader's laps)
+          </Form.Label>
+          <Form.Control
+            type="number"
+            size="sm"
+            min={0}
+            max={100}
+            step={1}
+            style={{ maxWidth: 90 }}
+            value={config.classificationThreshold}
+            onChange={(e) => {
+              const threshold = Number(e.target.value);
+              if (!Number.isFinite(threshold)) return;
+              onChange({
+                ...config,
+                classificationThreshold: Math.min(100, Math.max(0, threshold)),
+              });
+            }}
+          />
+          <Form.Text className="text-white-50">
+            Drivers below this distance are not classified (NC). Ignored for
+            results without lap counts.
+          </Form.Text>
+        </Form.Group>
+        <div className="text-white mt-3 mb-2">Bonus points</div>
+        <Row className="g-2">
+          {(["pole", "fastestLap", "finish"] as const).map((bonus) => (
+            <Col xs={4} key={bonus}>
+              <Form.Group controlId={`bonus-${bonus}`}>
+                <Form.Label className="text-white-50 small mb-1">
+                  {RACE_BONUS_LABELS[bonus]}
+                </Form.Label>
+                <Form.Control
+                  type="number"
+                  size="sm"
+                  min={0}
+                  step={1}
+                  value={config.bonusPoints[bonus]}
+                  onChange={(e) => setBonusPoints(bonus, e.target.value)}
+                />
+              </Form.Group>
+            </Col>
+          ))}
+        </Row>
+        <Form.Group controlId="fastestLapTopN" className="mt-2">
+          <Form.Label className="text-white-50 small mb-1">
+            Fastest lap scores only inside the top (0 = any finisher)
+          </Form.Label>
+          <Form.Control
+            type="number"
+            size="sm"
+            min={0}
+            step={1}
+            style={{ maxWidth: 90 }}
+            value={config.bonusPoints.fastestLapTopN}
+            disabled={config.bonusPoints.fastestLap === 0}
+            onChange={(e) => setBonusPoints("fastestLapTopN", e.target.value)}
+          />
+        </Form.Group>
+      </Col>
+      <Col lg={7}>
+        <div className="text-white mb-2">Tie-break order</div>
+        <ListGroup className="mb-2">
+          {config.tieBreakers.map((rule, index) => (
+            <ListGroup.Item
+              key={rule}
+              className="bg-dark text-white border-secondary d-flex justify-content-between align-items-center py-1"
+            >
+              <span className="small">
+                {index + 1}. {TIE_BREAK_RULE_LABELS[rule]}
+              </span>
+              <ButtonGroup size="sm">
+                <Button
+                  variant="outline-secondary"
+                  onClick={() => moveTieBreaker(index, -1)}
+                  disabled={index === 0}
+                  title="Move up"
+                >
+                  <FontAwesomeIcon icon={faArrowUp} />
+                </Button>
+                <Button
+                  variant="outline-secondary"
+                  onClick={() => moveTieBreaker(index, 1)}
+                  disabled={index === config.tieBreakers.length - 1}
+                  title="Move down"
+                >
+                  <FontAwesomeIcon icon={faArrowDown} />
+                </Button>
+                <Button
+                  variant="outline-danger"
+                  onClick={() =>
+                    setTieBreakers(config.tieBreakers.filter((r) => r !== rule))
+                  }
+                  title="Remove rule"
+                >
+                  <FontAwesomeIcon icon={faXmark} />
+                </Button>
+              </ButtonGroup>
+            </ListGroup.Item>
+          ))}
+          {config.tieBreakers.length === 0 && (
+            <ListGroup.Item className="bg-dark text-white-50 border-secondary small py-2">
+              No tie-breaks: drivers level on points share their position.
+            </ListGroup.Item>
+          )}
+        </ListGroup>
+        <div className="d-flex flex-wrap gap-2">
+          {unusedRules.map((rule) => (
+            <Button
+              key={rule}
+              variant="outline-light"
+              size="sm"
+              onClick={() => setTieBreakers([...config.tieBreakers, rule])}
+            >
+              <FontAwesomeIcon icon={faPlus} className="me-1" />
+              {TIE_BREAK_RULE_LABELS[rule]}
+            </Button>
+          ))}
+        </div>
+      </Col>
+    </Row>
+  );
+};
+
+export default StandingsRulesPanel;
@@ -1,14 +1,20 @@
-import { Card, Table } from "react-bootstrap";
-import type { PlayerTimes, TrackAsset } from "../types";
+import { useState } from "react";
+import { Badge, Card, Form, Table } from "react-bootstrap";
+import type { DatabaseClass, PlayerTimes, TrackAsset } from "../types";
+import { fuzzyFilter, pinFavorites } from "../utils/listSearch";
 import { makeTime } from "../utils/timeUtils";
+import FavoriteStar from "./FavoriteStar";
 
 interface TracksProps {
   availableTracks: TrackAsset[];
   selectedClassId: string;
   selectedTrackId: string;
   playerTimes: PlayerTimes | null;
+  processedClass?: DatabaseClass;
+  favoriteTrackIds: string[];
   onSelectTrack: (trackId: string) => void;
   onSelectAILevel: (aiLevel: number | null) => void;
+  onToggleFavorite: (trackId: string) => void;
 }
 
 const Tracks = ({
@@ -16,23 +22,44 @@ const Tracks = ({
   selectedClassId,
   selectedTrackId,
   playerTimes,
+  processedClass,
+  favoriteTrackIds,
   onSelectTrack,
   onSelectAILevel,
+  onToggleFavorite,
 }: TracksProps) => {
+  const [search, setSearch] = useState("");
+
+  const tracks = pinFavorites(
+    fuzzyFilter(availableTracks, search, (track) => track.name),
+    favoriteTrackIds,
+  );
+
   return (
     <Card bg="secondary" text="white" className="h-100">
       <Card.Header className="fw-semibold">Tracks</Card.Header>
       <Card.Body className="p-0">
+        <div className="p-2">
+          <Form.Control
+            type="search"
+            size="sm"
+            placeholder="Search tracks..."
+            aria-label="Search tracks"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+        </div>
         <div className="table-responsive" style={{ maxHeight: 320 }}>
           <Table hover size="sm" variant="dark" className="mb-0 align-middle">
             <thead className="table-dark position-sticky top-0">
               <tr>
+                <th style={{ width: 28 }} />
                 <th>Track</th>
                 <th className="text-end">Player Best</th>
               </tr>
             </thead>
             <tbody>
-              {availableTracks.map((track) => {
+              {tracks.map((track) => {
                 const playerClass = playerTimes?.classes[selectedClassId];
                 const playerTrack = playerClass?.tracks[track.id];
                 const playerTime = playerTrack?.playertime
@@ -50,11 +77,36 @@ const Tracks = ({
                     }
                     style={{ cursor: "pointer" }}
                   >
-                    <td>{track.name}</td>
+                    <td>
+                      <FavoriteStar
+                        active={favoriteTrackIds.includes(track.id)}
+                        onToggle={() => onToggleFavorite(track.id)}
+                      />
+                    </td>
+                    <td>
+                      {track.name}
+                      {processedClass?.tracks[track.id]?.extrapolated && (
+                        <Badge
+                          bg="warning"
+                          text="dark"
+                          className="ms-2"
+                          title="Predicted from this class's other tracks"
+                        >
+                          extrapolated
+                        </Badge>
+                      )}
+                    </td>
                     <td className="text-end">{playerTime}</td>
                   </tr>
                 );
               })}
+              {selectedClassId && tracks.length === 0 && (
+                <tr>
+                  <td colSpan={3} className="text-center text-white-50">
+                    No matching tracks
+                  </td>
+                </tr>
+              )}
             </tbody>
           </Table>
         </div>
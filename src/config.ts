@@ -1,3 +1,10 @@
+import type {
+  AIRangeOverride,
+  FitModel,
+  OutlierMethod,
+  PaceBasis,
+} from "./types";
+
 // Global application configuration for fitting and UI controls
 export const CFG = {
   // Prediction range
@@ -6,13 +13,26 @@ export const CFG = {
 
   // Fitting behaviour
   fitAll: false, // If true, fit all individual lap times; otherwise fit averaged times per AI level
+  weightBySamples: false, // If true, weight each averaged AI level by its numberOfSampledRaces when fitting
+  fitModel: "auto" as FitModel | "auto", // "auto" tries every model and keeps the one with the lowest AICc
   testMinAIdiffs: 2, // Minimum difference between min and max AI levels required to attempt fitting
   testMaxTimePct: 0.1, // Maximum deviation tolerance (percentage of minimum lap time)
   testMaxFailsPct: 0.1, // Maximum allowed failure rate for validation
+  paceTransfer: true, // If true, extrapolate tracks with too few AI samples from the class's other tracks
 
   // UI application parameters
   aiNumLevels: 5, // Number of AI levels to apply around the selected level
   aiSpacing: 1, // Step between AI levels when applying changes
+  aiRangeOverrides: {} as Record<string, AIRangeOverride>, // Keyed by "classid" or "classid/trackid"; track entries win over class entries
+
+  // AI level recommendation
+  targetGapPct: 0.5, // Target AI lap time relative to the player's pace in percent (positive = AI slower)
+  paceBasis: "average" as PaceBasis, // Player lap time the gap applies to: average or best
+
+  // Data cleanup
+  outlierMethod: "mad" as OutlierMethod, // How player lap time outliers are detected
+  outlierMadThreshold: 3.5, // Modified z-score above which a lap is an outlier (MAD method)
+  outlierPctOffBest: 3, // Laps slower than the best lap by more than this percentage are outliers
 };
 
 export type Config = typeof CFG;
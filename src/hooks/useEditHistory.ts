@@ -0,0 +1,90 @@
+import { useState } from "react";
+import type { Database, PlayerTimes } from "../types";
+
+// Oldest snapshots are dropped beyond this many entries
+const MAX_HISTORY = 50;
+
+export interface HistoryEntry {
+  label: string;
+  database: Database;
+  playerTimes: PlayerTimes;
+  timestamp: number;
+}
+
+const makeEntry = (
+  label: string,
+  database: Database,
+  playerTimes: PlayerTimes,
+): HistoryEntry => ({
+  label,
+  // Snapshots are cloned so later in-place edits (e.g. parseAdaptive) can't reach them
+  database: structuredClone(database),
+  playerTimes: structuredClone(playerTimes),
+  timestamp: Date.now(),
+});
+
+/**
+ * Session undo/redo stack of database + player times snapshots.
+ * Every entry is the state *after* its labelled edit.
+ */
+export const useEditHistory = () => {
+  const [history, setHistory] = useState<{
+    entries: HistoryEntry[];
+    index: number;
+  }>(() => ({
+    entries: [makeEntry("Session start", { classes: {} }, { classes: {} })],
+    index: 0,
+  }));
+
+  // Starts a new timeline, e.g. after loading a file
+  const resetHistory = (
+    label: string,
+    database: Database,
+    playerTimes: PlayerTimes,
+  ) => {
+    setHistory({
+      entries: [makeEntry(label, database, playerTimes)],
+      index: 0,
+    });
+  };
+
+  // Records an edit, discarding any redo entries
+  const recordEdit = (
+    label: string,
+    database: Database,
+    playerTimes: PlayerTimes,
+  ) => {
+    setHistory((prev) => {
+      const entries = [
+        ...prev.entries.slice(0, prev.index + 1),
+        makeEntry(label, database, playerTimes),
+      ].slice(-MAX_HISTORY);
+      return { entries, index: entries.length - 1 };
+    });
+  };
+
+  /**
+   * Moves to an entry and returns a fresh copy of its state, or undefined
+   * when the index is out of range.
+   */
+  const goTo = (index: number) => {
+    const entry = history.entries[index];
+    if (!entry) return undefined;
+    setHistory({ ...history, index });
+    return {
+      label: entry.label,
+      database: structuredClone(entry.database),
+      playerTimes: structuredClone(entry.playerTimes),
+    };
+  };
+
+  return {
+    entries: history.entries,
+    index: history.index,
+    canUndo: history.index > 0,
+    canRedo: history.index < history.entries.length - 1,
+    resetHistory,
+    recordEdit,
+    goTo,
+  };
+};
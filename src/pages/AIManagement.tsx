@@ -1,5 +1,11 @@
+import { faBroom } from "@fortawesome/free-solid-svg-icons/faBroom";
+import { faClockRotateLeft } from "@fortawesome/free-solid-svg-icons/faClockRotateLeft";
 import { faDownload } from "@fortawesome/free-solid-svg-icons/faDownload";
+import { faFloppyDisk } from "@fortawesome/free-solid-svg-icons/faFloppyDisk";
+import { faLayerGroup } from "@fortawesome/free-solid-svg-icons/faLayerGroup";
 import { faRobot } from "@fortawesome/free-solid-svg-icons/faRobot";
+import { faStethoscope } from "@fortawesome/free-solid-svg-icons/faStethoscope";
+import { faTableCells } from "@fortawesome/free-solid-svg-icons/faTableCells";
 import { faThumbsUp } from "@fortawesome/free-solid-svg-icons/faThumbsUp";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
 import {
@@ -10,30 +16,72 @@ import {
   type ChangeEvent,
 } from "react";
 import { Button, Card, Col, Container, Modal, Row } from "react-bootstrap";
+import AILapTimeChart from "../components/AILapTimeChart";
 import AILevels from "../components/AILevels";
 import AIModifications from "../components/AIModifications";
 import AIModificationsModal from "../components/AIModificationsModal";
+import AdaptationDiffModal from "../components/AdaptationDiffModal";
+import AIRecommendationPanel from "../components/AIRecommendationPanel";
+import BackupsModal from "../components/BackupsModal";
+import BulkApplyModal, { type BulkScope } from "../components/BulkApplyModal";
 import Classes from "../components/Classes";
+import CoverageMatrixModal from "../components/CoverageMatrixModal";
+import EditHistoryPanel from "../components/EditHistoryPanel";
 import FileUploadSection from "../components/FileUploadSection";
+import FitDiagnosticsModal from "../components/FitDiagnosticsModal";
+import MergeReportModal from "../components/MergeReportModal";
+import OutlierReviewModal from "../components/OutlierReviewModal";
 import PlayerTimesTable from "../components/PlayerTimesTable";
 import ProcessingLog from "../components/ProcessingLog";
+import SelectionFilters from "../components/SelectionFilters";
 import Tracks from "../components/Tracks";
+import { useEditHistory } from "../hooks/useEditHistory";
 import { useElectronAPI } from "../hooks/useElectronAPI";
 import { useProcessingLog } from "../hooks/useProcessingLog";
 import { useConfigStore } from "../store/configStore";
+import { useFavoritesStore } from "../store/favoritesStore";
 import { useGameDataStore } from "../store/gameDataStore";
 import type {
   Assets,
   Database,
-  DatabaseClass,
   DatabaseTrack,
+  FitModel,
+  PaceBasis,
   PlayerTimes,
   ProcessedDatabase,
 } from "../types";
+import {
+  listBackups,
+  saveWithBackup,
+  type AdaptationBackup,
+} from "../utils/aiadaptationBackup";
+import {
+  applyGeneratedLevels,
+  getAIRange,
+  recalculateClassMinMax,
+  recalculateTrackMinMax,
+  resolveAIRange,
+  type BulkApplyEntry,
+} from "../utils/aiLevels";
+import { recommendAll } from "../utils/aiRecommendation";
 import { processDatabase } from "../utils/databaseProcessor";
+import { FIT_MODEL_LABELS } from "../utils/fitting";
 import { parseJson } from "../utils/jsonParser";
+import {
+  buildFilterIndex,
+  passesFilters,
+  type SelectionFilter,
+} from "../utils/listSearch";
+import {
+  findMonotonicityBreaks,
+  removeOutliers,
+  type AILevelAnomaly,
+  type PlayerTimeOutlier,
+} from "../utils/outliers";
 import { makeTime } from "../utils/timeUtils";
 import { buildXML } from "../utils/xmlBuilder";
+import { diffAdaptationXml, type AdaptationDiff } from "../utils/xmlDiff";
+import { mergeAdaptations, type MergeResult } from "../utils/xmlMerger";
 import { parseAdaptive } from "../utils/xmlParser";
 
 /**
@@ -55,40 +103,19 @@ const removeGeneratedFromTrack = (track: DatabaseTrack): number => {
   return removedCount;
 };
 
-/**
- * Recalculates min/max AI levels for a track after removal
- */
-const recalculateTrackMinMax = (track: DatabaseTrack): void => {
-  const aiLevels = Object.keys(track.ailevels).map(Number);
-  if (aiLevels.length > 0) {
-    track.minAI = Math.min(...aiLevels);
-    track.maxAI = Math.max(...aiLevels);
-  } else {
-    delete track.minAI;
-    delete track.maxAI;
-  }
-};
-
-/**
- * Recalculates min/max AI levels for a class based on all tracks
- */
-const recalculateClassMinMax = (classData: DatabaseClass): void => {
-  const allTrackAIs = Object.values(classData.tracks).flatMap((t) =>
-    Object.keys(t.ailevels).map(Number),
-  );
-  if (allTrackAIs.length > 0) {
-    classData.minAI = Math.min(...allTrackAIs);
-    classData.maxAI = Math.max(...allTrackAIs);
-  } else {
-    delete classData.minAI;
-    delete classData.maxAI;
-  }
-};
-
 const AIManagement = () => {
   const { config } = useConfigStore();
   const electron = useElectronAPI();
   const gameData = useGameDataStore((state) => state.gameData);
+  const {
+    favoriteClasses,
+    favoriteTracks,
+    recents,
+    toggleFavoriteClass,
+    toggleFavoriteTrack,
+    addRecent,
+    clearRecents,
+  } = useFavoritesStore();
 
   // Data state
   const [assets, setAssets] = useState<Assets | null>(null);
@@ -102,40 +129,101 @@ const AIManagement = () => {
   const [selectedClassId, setSelectedClassId] = useState<string>("");
   const [selectedTrackId, setSelectedTrackId] = useState<string>("");
   const [selectedAILevel, setSelectedAILevel] = useState<number | null>(null);
+  const [listFilters, setListFilters] = useState<SelectionFilter[]>([]);
   const [spacing, setSpacing] = useState<number>(config.aiSpacing);
+  const [targetGapPct, setTargetGapPct] = useState<number>(config.targetGapPct);
+  const [paceBasis, setPaceBasis] = useState<PaceBasis>(config.paceBasis);
   const [showApplyModal, setShowApplyModal] = useState(false);
   const [showResetModal, setShowResetModal] = useState(false);
+  const [showDiagnosticsModal, setShowDiagnosticsModal] = useState(false);
+  const [showCleanupModal, setShowCleanupModal] = useState(false);
+  const [showCoverageModal, setShowCoverageModal] = useState(false);
+  const [bulkScope, setBulkScope] = useState<BulkScope | null>(null);
+  const [mergeResult, setMergeResult] = useState<MergeResult | null>(null);
+  const [showMergeReport, setShowMergeReport] = useState(false);
+  const [applyDiff, setApplyDiff] = useState<AdaptationDiff | null>(null);
+  const [fileComparison, setFileComparison] = useState<{
+    diff: AdaptationDiff;
+    beforeName: string;
+    afterName: string;
+  } | null>(null);
   const [xmlAutoLoaded, setXmlAutoLoaded] = useState(false);
+  const [aiadaptationPath, setAiadaptationPath] = useState<string | null>(null);
+  const [backups, setBackups] = useState<AdaptationBackup[] | null>(null);
   const [originalPlayerTimes, setOriginalPlayerTimes] = useState<PlayerTimes>({
     classes: {},
   });
+  // Database as loaded, so export previews include every generation since then
+  const [originalDatabase, setOriginalDatabase] = useState<Database>({
+    classes: {},
+  });
 
   // Refs
   const xmlInputRef = useRef<HTMLInputElement>(null);
   const gameDataLoggedRef = useRef(false);
   const xmlAutoLoadedRef = useRef(false);
+  const fitSummaryRef = useRef("");
   const { logs, addLog, logsEndRef, getLogVariant, setLogs } =
     useProcessingLog();
-
-  // Calculate AI range
-  const aiNumLevels = config.aiNumLevels;
-  const aifrom = selectedAILevel
-    ? Math.max(
-        config.minAI,
-        selectedAILevel - Math.floor(aiNumLevels / 2) * spacing,
-      )
-    : config.minAI;
-  const aito = Math.min(config.maxAI, aifrom + (aiNumLevels - 1) * spacing);
+  const history = useEditHistory();
+  const { recordEdit, resetHistory } = history;
+
+  // Calculate AI range, honouring class/track overrides from config
+  const aiRange = resolveAIRange(config, selectedClassId, selectedTrackId);
+  const { aifrom, aito } = getAIRange(
+    selectedAILevel,
+    config.aiNumLevels,
+    spacing,
+    aiRange.minAI,
+    aiRange.maxAI,
+  );
 
   // ============ EFFECTS ============
 
   useEffect(() => {
-    setSpacing(config.aiSpacing);
-  }, [config.aiSpacing]);
+    setSpacing(aiRange.spacing);
+  }, [aiRange.spacing]);
+
+  useEffect(() => {
+    setProcessed(processDatabase(database, playerTimes));
+  }, [config, database, playerTimes]);
+
+  // Report the fit model chosen per class/track, only when the choice changes
+  useEffect(() => {
+    const fitted = (processed.diagnostics ?? []).filter(
+      (d) => d.accepted && d.model,
+    );
+    const summary = fitted
+      .map((d) => `${d.classid}/${d.trackid}:${d.model}`)
+      .join(",");
+    if (fitted.length === 0 || summary === fitSummaryRef.current) return;
+    fitSummaryRef.current = summary;
+
+    const counts = new Map<FitModel, number>();
+    for (const d of fitted) {
+      counts.set(d.model!, (counts.get(d.model!) ?? 0) + 1);
+    }
+    addLog(
+      "info",
+      `Fitted ${fitted.length} class/track pair(s): ${[...counts]
+        .map(([model, count]) => `${FIT_MODEL_LABELS[model]} ${count}`)
+        .join(", ")}`,
+    );
+    for (const d of fitted) {
+      const classLabel = assets?.classes?.[d.classid]?.name || d.classid;
+      const trackLabel = assets?.tracks?.[d.trackid]?.name || d.trackid;
+      addLog(
+        "info",
+        `${classLabel} - ${trackLabel}: ${FIT_MODEL_LABELS[d.model!]}`,
+      );
+    }
+  }, [processed, assets, addLog]);
 
   useEffect(() => {
-    setProcessed(processDatabase(database));
-  }, [config, database]);
+    if (selectedClassId && selectedTrackId) {
+      addRecent(selectedClassId, selectedTrackId);
+    }
+  }, [selectedClassId, selectedTrackId, addRecent]);
 
   // Load game data assets on mount from global store
   useEffect(() => {
@@ -147,6 +235,20 @@ const AIManagement = () => {
     }
   }, [gameData, assets, addLog]);
 
+  // Flags imported AI levels that are not faster than the level below them
+  const logMonotonicityBreaks = useCallback(
+    (db: Database) => {
+      const breaks = findMonotonicityBreaks(db);
+      if (breaks.length > 0) {
+        addLog(
+          "warning",
+          `${breaks.length} AI level(s) are out of order with their neighbours; review them with "Clean up data"`,
+        );
+      }
+    },
+    [addLog],
+  );
+
   useEffect(() => {
     const loadAiadaptationFile = async () => {
       if (xmlAutoLoadedRef.current) return;
@@ -161,6 +263,9 @@ const AIManagement = () => {
 
       try {
         const result = await electron.findAiadaptationFile();
+        if (result.success && result.path) {
+          setAiadaptationPath(result.path);
+        }
         if (result.success && result.data) {
           try {
             const newDatabase = { ...database };
@@ -174,8 +279,15 @@ const AIManagement = () => {
               setDatabase(newDatabase);
               setPlayerTimes(newPlayerTimes);
               setOriginalPlayerTimes(structuredClone(newPlayerTimes));
+              setOriginalDatabase(structuredClone(newDatabase));
+              resetHistory(
+                "Loaded aiadaptation.xml from UserData",
+                newDatabase,
+                newPlayerTimes,
+              );
               setXmlAutoLoaded(true);
               addLog("success", `Loaded aiadaptation.xml from: ${result.path}`);
+              logMonotonicityBreaks(newDatabase);
             }
           } catch (error) {
             setXmlAutoLoaded(false);
@@ -194,7 +306,7 @@ const AIManagement = () => {
     };
 
     loadAiadaptationFile();
-  }, [electron.isElectron]);
+  }, [electron.isElectron, logMonotonicityBreaks]);
 
   // ============ FILE UPLOAD HANDLERS ============
 
@@ -212,15 +324,89 @@ const AIManagement = () => {
           setDatabase(newDatabase);
           setPlayerTimes(newPlayerTimes);
           setOriginalPlayerTimes(structuredClone(newPlayerTimes));
+          setOriginalDatabase(structuredClone(newDatabase));
+          resetHistory(`Loaded ${file.name}`, newDatabase, newPlayerTimes);
           addLog("success", "AI Adaptation XML loaded successfully");
+          logMonotonicityBreaks(newDatabase);
         }
       } catch (error) {
         addLog("error", "Error parsing XML file");
       }
     },
-    [database, playerTimes, addLog],
+    [database, playerTimes, addLog, resetHistory, logMonotonicityBreaks],
   );
 
+  const handleXmlMerge = async (event: ChangeEvent<HTMLInputElement>) => {
+    const input = event.target;
+    const files = Array.from(input.files ?? []);
+    if (files.length === 0) return;
+
+    setLogs([]);
+    const sources = await Promise.all(
+      files.map(async (file) => ({
+        name: file.name,
+        xmlText: await file.text(),
+      })),
+    );
+    const result = mergeAdaptations(sources);
+    input.value = "";
+
+    for (const source of result.sources) {
+      if (source.valid) {
+        addLog(
+          "info",
+          `${source.name}: ${source.aiLevels} AI level(s), ${source.playerLaps} player lap(s)`,
+        );
+      } else {
+        addLog("error", `${source.name}: could not read AI adaptation data`);
+      }
+    }
+    if (!result.sources.some((source) => source.valid)) return;
+
+    setDatabase(result.database);
+    setPlayerTimes(result.playerTimes);
+    setOriginalPlayerTimes(structuredClone(result.playerTimes));
+    setOriginalDatabase(structuredClone(result.database));
+    resetHistory(
+      `Merged ${files.length} file(s)`,
+      result.database,
+      result.playerTimes,
+    );
+    setMergeResult(result);
+    setShowMergeReport(true);
+    addLog(
+      result.conflicts.length ? "warning" : "success",
+      `Merged ${files.length} file(s) with ${result.conflicts.length} conflicting AI level(s)`,
+    );
+    logMonotonicityBreaks(result.database);
+  };
+
+  const handleXmlCompare = async (event: ChangeEvent<HTMLInputElement>) => {
+    const input = event.target;
+    // Older file first, so the diff reads as the changes made since then
+    const files = Array.from(input.files ?? []).sort(
+      (a, b) => a.lastModified - b.lastModified,
+    );
+    input.value = "";
+    if (files.length !== 2) {
+      addLog("warning", "Select exactly two aiadaptation.xml files to compare");
+      return;
+    }
+
+    try {
+      const [beforeXml, afterXml] = await Promise.all(
+        files.map((file) => file.text()),
+      );
+      setFileComparison({
+        diff: diffAdaptationXml(beforeXml, afterXml),
+        beforeName: files[0].name,
+        afterName: files[1].name,
+      });
+    } catch (error) {
+      addLog("error", `Error comparing XML files: ${error}`);
+    }
+  };
+
   // ============ XML DOWNLOAD HELPER ============
 
   const downloadXml = useCallback(
@@ -247,9 +433,120 @@ const AIManagement = () => {
     [assets, addLog],
   );
 
+  // ============ SAVE TO GAME (ELECTRON) ============
+
+  const saveToGame = async (db: Database, pt: PlayerTimes) => {
+    if (!assets || !aiadaptationPath) return;
+    try {
+      const backupPath = await saveWithBackup(
+        electron,
+        aiadaptationPath,
+        buildXML(db, pt, assets),
+      );
+      if (backupPath)
+        addLog("info", `Backed up previous file to ${backupPath}`);
+      addLog(
+        "success",
+        `Saved aiadaptation.xml to ${aiadaptationPath}`,
+        faFloppyDisk,
+      );
+    } catch (error) {
+      addLog("error", `Failed to save aiadaptation.xml: ${error}`);
+    }
+  };
+
+  const handleOpenBackups = async () => {
+    if (!aiadaptationPath) return;
+    try {
+      setBackups(await listBackups(electron, aiadaptationPath));
+    } catch (error) {
+      addLog("error", `Failed to list backups: ${error}`);
+    }
+  };
+
+  const compareBackup = async (backup: AdaptationBackup) => {
+    const [currentXml, backupXml] = await Promise.all([
+      electron.readFile(aiadaptationPath ?? ""),
+      electron.readFile(backup.path),
+    ]);
+    return diffAdaptationXml(currentXml, backupXml);
+  };
+
+  const handleRestoreBackup = async (backup: AdaptationBackup) => {
+    if (!aiadaptationPath) return;
+    setBackups(null);
+    setLogs([]);
+    try {
+      const backupXml = await electron.readFile(backup.path);
+      const newDatabase: Database = { classes: {} };
+      const newPlayerTimes: PlayerTimes = { classes: {} };
+      if (!parseAdaptive(backupXml, newDatabase, newPlayerTimes)) {
+        addLog("error", `${backup.name} contains no AI adaptation data`);
+        return;
+      }
+
+      const backupPath = await saveWithBackup(
+        electron,
+        aiadaptationPath,
+        backupXml,
+      );
+      if (backupPath)
+        addLog("info", `Backed up previous file to ${backupPath}`);
+
+      setDatabase(newDatabase);
+      setPlayerTimes(newPlayerTimes);
+      setOriginalPlayerTimes(structuredClone(newPlayerTimes));
+      setOriginalDatabase(structuredClone(newDatabase));
+      recordEdit(`Restore ${backup.name}`, newDatabase, newPlayerTimes);
+      addLog(
+        "success",
+        `Restored ${backup.name} to ${aiadaptationPath}`,
+        faClockRotateLeft,
+      );
+    } catch (error) {
+      addLog("error", `Failed to restore ${backup.name}: ${error}`);
+    }
+  };
+
   // ============ APPLY MODIFICATION ============
 
-  const handleConfirmApply = () => {
+  const handleOpenApply = () => {
+    if (!assets) {
+      addLog("error", "Please load RaceRoom data before exporting XML");
+      return;
+    }
+
+    // Preview the pending generation without touching state
+    const pendingDb = structuredClone(database);
+    const processedTrack =
+      processed.classes[selectedClassId]?.tracks[selectedTrackId];
+    if (processedTrack && selectedAILevel !== null) {
+      applyGeneratedLevels(
+        pendingDb,
+        processedTrack,
+        selectedClassId,
+        selectedTrackId,
+        aifrom,
+        aito,
+        spacing,
+      );
+    }
+
+    try {
+      setApplyDiff(
+        diffAdaptationXml(
+          buildXML(originalDatabase, originalPlayerTimes, assets),
+          buildXML(pendingDb, playerTimes, assets),
+        ),
+      );
+    } catch (error) {
+      setApplyDiff(null);
+      addLog("error", `Error computing changes: ${error}`);
+    }
+    setShowApplyModal(true);
+  };
+
+  const handleConfirmApply = (toGame = false) => {
     setShowApplyModal(false);
     setLogs([]);
 
@@ -270,6 +567,11 @@ const AIManagement = () => {
     // Apply player times modification (always use current playerTimes)
     updatedPt = playerTimes;
 
+    if (toGame) {
+      saveToGame(updatedDb, updatedPt);
+      return;
+    }
+
     // Download the merged results
     if (assets && updatedDb) {
       try {
@@ -313,7 +615,8 @@ const AIManagement = () => {
       addLog("info", `AI Range: ${aifrom} - ${aito} (step: ${aiSpacing})`);
 
       // Validate that the track has been processed (fitted) successfully
-      if (!processed.classes[classid]?.tracks[trackid]) {
+      const processedTrack = processed.classes[classid]?.tracks[trackid];
+      if (!processedTrack) {
         addLog(
           "error",
           "No processed data available for this class/track combination",
@@ -321,62 +624,86 @@ const AIManagement = () => {
         return database;
       }
       addLog("success", "Processed data found");
-
-      // Create a deep copy of the current database to avoid mutating state directly
-      const newDatabase = structuredClone(database);
-
-      // Ensure class and track exist in database
-      if (!newDatabase.classes[classid]) {
-        newDatabase.classes[classid] = { tracks: {} };
+      if (processedTrack.extrapolated) {
+        addLog(
+          "warning",
+          "Predictions are extrapolated from this class's other tracks",
+        );
       }
-      if (!newDatabase.classes[classid].tracks[trackid]) {
-        newDatabase.classes[classid].tracks[trackid] = {
-          ailevels: {},
-          samplesCount: {},
-        };
+      if (processedTrack.fitModel) {
+        addLog(
+          "info",
+          `Fit model: ${FIT_MODEL_LABELS[processedTrack.fitModel]} (mean residual ${processedTrack.fitResidual?.toFixed(3) ?? "?"}s)`,
+        );
       }
 
-      const track = newDatabase.classes[classid].tracks[trackid];
-      const processedTrack = processed.classes[classid].tracks[trackid];
-
-      // Replace all existing AI levels for this class/track with generated values
-      track.ailevels = {};
-      track.samplesCount = {};
-
-      // Populate the track with generated AI levels from aifrom to aito with aiSpacing step
-      let addedCount = 0;
-      for (let ai = aifrom; ai <= aito; ai += aiSpacing) {
-        const generatedTime = processedTrack.ailevels[ai]?.[0];
-        if (generatedTime) {
-          track.ailevels[ai] = [generatedTime];
-          track.samplesCount[ai] = 0; // Mark as generated
-          addedCount++;
-        }
-      }
+      // Create a deep copy of the current database to avoid mutating state directly
+      const newDatabase = structuredClone(database);
+      const addedCount = applyGeneratedLevels(
+        newDatabase,
+        processedTrack,
+        classid,
+        trackid,
+        aifrom,
+        aito,
+        aiSpacing,
+      );
 
       addLog("success", `Generated ${addedCount} AI level(s)`);
 
-      // Update min/max AI for the track based on newly added levels
-      const aiLevels = Object.keys(track.ailevels).map(Number);
-      track.minAI = Math.min(...aiLevels);
-      track.maxAI = Math.max(...aiLevels);
-
-      // Update min/max AI for the class based on all tracks
-      const classData = newDatabase.classes[classid];
-      const allTrackAIs = Object.values(classData.tracks).flatMap((t) =>
-        Object.keys(t.ailevels).map(Number),
-      );
-      classData.minAI = Math.min(...allTrackAIs);
-      classData.maxAI = Math.max(...allTrackAIs);
-
       addLog("success", "Modification applied successfully", faThumbsUp);
 
       setDatabase(newDatabase);
+      recordEdit(
+        `Generate AI ${aifrom}-${aito}: ${classLabel} - ${trackLabel}`,
+        newDatabase,
+        playerTimes,
+      );
       return newDatabase;
     },
-    [database, processed, assets, addLog, setLogs],
+    [database, playerTimes, processed, assets, addLog, setLogs, recordEdit],
   );
 
+  // ============ BULK APPLY ============
+
+  const handleBulkApply = (entries: BulkApplyEntry[]) => {
+    setBulkScope(null);
+    setLogs([]);
+    addLog(
+      "info",
+      `Applying AI generation to ${entries.length} class/track combination(s)`,
+    );
+
+    const newDatabase = structuredClone(database);
+    for (const entry of entries) {
+      const addedCount = applyGeneratedLevels(
+        newDatabase,
+        processed.classes[entry.classid].tracks[entry.trackid],
+        entry.classid,
+        entry.trackid,
+        entry.aifrom,
+        entry.aito,
+        entry.spacing,
+      );
+      const classLabel =
+        assets?.classes?.[entry.classid]?.name || entry.classid;
+      const trackLabel = assets?.tracks?.[entry.trackid]?.name || entry.trackid;
+      addLog(
+        "info",
+        `${classLabel} - ${trackLabel}: generated ${addedCount} level(s) around AI ${entry.centerAI} (${entry.aifrom} - ${entry.aito})`,
+      );
+    }
+
+    setDatabase(newDatabase);
+    recordEdit(
+      `Bulk apply: ${entries.length} class/track pair(s)`,
+      newDatabase,
+      playerTimes,
+    );
+    downloadXml(newDatabase, playerTimes);
+    addLog("success", "Downloaded modified aiadaptation.xml", faDownload);
+  };
+
   // ============ REMOVE GENERATED ============
 
   const handleDeletePlayerTime = useCallback(
@@ -396,9 +723,14 @@ const AIManagement = () => {
       }
 
       setPlayerTimes(newPlayerTimes);
+      recordEdit(
+        `Delete player time ${makeTime(deletedTime, ":")}`,
+        database,
+        newPlayerTimes,
+      );
       addLog("success", `Deleted player time: ${makeTime(deletedTime, ":")}`);
     },
-    [playerTimes, addLog],
+    [database, playerTimes, addLog, recordEdit],
   );
 
   const handleDeleteAllButMinPlayerTime = useCallback(
@@ -413,18 +745,24 @@ const AIManagement = () => {
       track.playertime = minTime;
 
       setPlayerTimes(newPlayerTimes);
+      recordEdit(
+        `Keep best player time ${makeTime(minTime, ":")}`,
+        database,
+        newPlayerTimes,
+      );
       addLog(
         "success",
         `Deleted ${deletedCount} player time(s), kept best: ${makeTime(minTime, ":")}`,
       );
     },
-    [playerTimes, addLog],
+    [database, playerTimes, addLog, recordEdit],
   );
 
   const handleRestorePlayerTimes = useCallback(() => {
     setPlayerTimes(structuredClone(originalPlayerTimes));
+    recordEdit("Restore player times", database, originalPlayerTimes);
     addLog("success", "Player times restored to original state");
-  }, [originalPlayerTimes, addLog]);
+  }, [database, originalPlayerTimes, addLog, recordEdit]);
 
   // ============ REMOVE GENERATED ============
 
@@ -460,6 +798,11 @@ const AIManagement = () => {
     if (removedCount === 0) {
       addLog("warning", "⚠ No generated AI levels found to remove");
     } else {
+      recordEdit(
+        `Remove ${removedCount} generated AI level(s)`,
+        newDatabase,
+        playerTimes,
+      );
       addLog(
         "success",
         `Successfully removed ${removedCount} generated AI level(s)`,
@@ -473,7 +816,7 @@ const AIManagement = () => {
     if (xmlInputRef.current) {
       xmlInputRef.current.value = "";
     }
-  }, [database, assets, playerTimes, downloadXml, addLog, setLogs]);
+  }, [database, assets, playerTimes, downloadXml, addLog, setLogs, recordEdit]);
 
   // ============ RESET ALL ============
 
@@ -495,6 +838,7 @@ const AIManagement = () => {
     const emptyDb: Database = { classes: {} };
     setDatabase(emptyDb);
     setProcessed({ classes: {} });
+    recordEdit("Reset all AI times", emptyDb, playerTimes);
     addLog("success", "All AI data cleared from database");
 
     downloadXml(emptyDb, playerTimes);
@@ -504,7 +848,58 @@ const AIManagement = () => {
     if (xmlInputRef.current) {
       xmlInputRef.current.value = "";
     }
-  }, [downloadXml, playerTimes, addLog, setLogs]);
+  }, [downloadXml, playerTimes, addLog, setLogs, recordEdit]);
+
+  // ============ DATA CLEANUP ============
+
+  const handleCleanup = (
+    laps: PlayerTimeOutlier[],
+    levels: AILevelAnomaly[],
+  ) => {
+    setShowCleanupModal(false);
+    setLogs([]);
+
+    const cleaned = removeOutliers(database, playerTimes, laps, levels);
+    setDatabase(cleaned.database);
+    setPlayerTimes(cleaned.playerTimes);
+    recordEdit(
+      `Clean up ${laps.length} lap(s), ${levels.length} AI level(s)`,
+      cleaned.database,
+      cleaned.playerTimes,
+    );
+
+    for (const level of levels) {
+      const classLabel =
+        assets?.classes?.[level.classid]?.name || level.classid;
+      const trackLabel = assets?.tracks?.[level.trackid]?.name || level.trackid;
+      addLog(
+        "info",
+        `${classLabel} - ${trackLabel}: removed AI ${level.ailevel} (${makeTime(level.time, ":")})`,
+      );
+    }
+    addLog(
+      "success",
+      `Removed ${laps.length} outlier lap(s) and ${levels.length} AI level(s); apply or save to export`,
+      faBroom,
+    );
+  };
+
+  // ============ UNDO / REDO ============
+
+  const handleHistoryGoTo = (index: number) => {
+    if (index === history.index) return;
+    const snapshot = history.goTo(index);
+    if (!snapshot) return;
+
+    setDatabase(snapshot.database);
+    setPlayerTimes(snapshot.playerTimes);
+    addLog(
+      "info",
+      index < history.index
+        ? `Undo: back to "${snapshot.label}"`
+        : `Redo: forward to "${snapshot.label}"`,
+    );
+  };
 
   // ============ CHECK IF PLAYER TIMES MODIFIED ============
 
@@ -540,52 +935,15 @@ const AIManagement = () => {
     return false;
   }, [playerTimes, originalPlayerTimes]);
 
-  const getPlayerTimesModifications = useCallback((): Array<{
-    classId: string;
-    className: string;
-    trackId: string;
-    trackName: string;
-    removedCount: number;
-  }> => {
-    const modifications: Array<{
-      classId: string;
-      className: string;
-      trackId: string;
-      trackName: string;
-      removedCount: number;
-    }> = [];
-
-    for (const [classId, classData] of Object.entries(playerTimes.classes)) {
-      const origClass = originalPlayerTimes.classes[classId];
-      if (!origClass) continue;
-
-      for (const [trackId, trackData] of Object.entries(classData.tracks)) {
-        const origTrack = origClass.tracks[trackId];
-        if (!origTrack) continue;
-
-        const currentCount = trackData.playertimes?.length || 0;
-        const originalCount = origTrack.playertimes?.length || 0;
-        const removedCount = originalCount - currentCount;
-
-        if (removedCount > 0) {
-          modifications.push({
-            classId,
-            className: assets?.classes?.[classId]?.name || classId,
-            trackId,
-            trackName: assets?.tracks?.[trackId]?.name || trackId,
-            removedCount,
-          });
-        }
-      }
-    }
-
-    return modifications;
-  }, [playerTimes, originalPlayerTimes, assets]);
-
   // ============ CALCULATE AVAILABLE DATA ============
 
+  const filterIndex = buildFilterIndex(database, processed, playerTimes);
+
   const availableClasses =
     assets?.classesSorted.filter((classAsset) => {
+      if (!passesFilters(filterIndex, listFilters, classAsset.id)) {
+        return false;
+      }
       if (!processed || Object.keys(processed.classes).length === 0) {
         return true;
       }
@@ -597,6 +955,15 @@ const AIManagement = () => {
   const availableTracks =
     assets?.tracksSorted.filter((trackAsset) => {
       if (!selectedClassId) return false;
+      if (
+        !passesFilters(
+          filterIndex,
+          listFilters,
+          `${selectedClassId}/${trackAsset.id}`,
+        )
+      ) {
+        return false;
+      }
       if (!processed || Object.keys(processed.classes).length === 0) {
         return true;
       }
@@ -607,6 +974,16 @@ const AIManagement = () => {
       return track || playerTrack;
     }) || [];
 
+  const recommendations = recommendAll(
+    processed,
+    playerTimes,
+    targetGapPct,
+    paceBasis,
+  );
+  const selectedRecommendation = recommendations.find(
+    (rec) => rec.classid === selectedClassId && rec.trackid === selectedTrackId,
+  );
+
   const aiLevels =
     selectedTrackId &&
     processed?.classes[selectedClassId]?.tracks[selectedTrackId]
@@ -640,6 +1017,8 @@ const AIManagement = () => {
 
           <FileUploadSection
             onXmlUpload={handleXmlUpload}
+            onXmlMerge={handleXmlMerge}
+            onXmlCompare={handleXmlCompare}
             assets={assets}
             xmlInputRef={xmlInputRef}
           />
@@ -655,20 +1034,103 @@ const AIManagement = () => {
                     <Button variant="danger" onClick={handleResetAll}>
                       Reset all AI times
                     </Button>
+                    <Button
+                      variant="outline-success"
+                      onClick={() => setBulkScope("all")}
+                    >
+                      <FontAwesomeIcon icon={faLayerGroup} className="me-2" />
+                      Bulk apply
+                    </Button>
+                    <Button
+                      variant="outline-info"
+                      onClick={() => setShowDiagnosticsModal(true)}
+                    >
+                      <FontAwesomeIcon icon={faStethoscope} className="me-2" />
+                      Fit diagnostics
+                    </Button>
+                    <Button
+                      variant="outline-info"
+                      onClick={() => setShowCoverageModal(true)}
+                    >
+                      <FontAwesomeIcon icon={faTableCells} className="me-2" />
+                      Coverage
+                    </Button>
+                    <Button
+                      variant="outline-warning"
+                      onClick={() => setShowCleanupModal(true)}
+                    >
+                      <FontAwesomeIcon icon={faBroom} className="me-2" />
+                      Clean up data
+                    </Button>
+                    {aiadaptationPath && (
+                      <>
+                        <Button
+                          variant="outline-primary"
+                          onClick={() => {
+                            setLogs([]);
+                            saveToGame(database, playerTimes);
+                          }}
+                          title={aiadaptationPath}
+                        >
+                          <FontAwesomeIcon
+                            icon={faFloppyDisk}
+                            className="me-2"
+                          />
+                          Save to game
+                        </Button>
+                        <Button
+                          variant="outline-secondary"
+                          onClick={handleOpenBackups}
+                        >
+                          <FontAwesomeIcon
+                            icon={faClockRotateLeft}
+                            className="me-2"
+                          />
+                          Backups
+                        </Button>
+                      </>
+                    )}
                   </div>
                 </Card.Body>
               </Card>
 
+              <EditHistoryPanel
+                entries={history.entries}
+                index={history.index}
+                canUndo={history.canUndo}
+                canRedo={history.canRedo}
+                onUndo={() => handleHistoryGoTo(history.index - 1)}
+                onRedo={() => handleHistoryGoTo(history.index + 1)}
+                onGoTo={handleHistoryGoTo}
+              />
+
               <Card bg="dark" text="white" className="border-secondary mb-3">
                 <Card.Body>
+                  <SelectionFilters
+                    assets={assets}
+                    filters={listFilters}
+                    recents={recents}
+                    selectedClassId={selectedClassId}
+                    selectedTrackId={selectedTrackId}
+                    onFiltersChange={setListFilters}
+                    onSelectRecent={(classId, trackId) => {
+                      setSelectedClassId(classId);
+                      setSelectedTrackId(trackId);
+                      setSelectedAILevel(null);
+                    }}
+                    onClearRecents={clearRecents}
+                  />
+
                   <Row className="g-3 mb-4">
                     <Col xl={3} lg={6} md={12}>
                       <Classes
                         availableClasses={availableClasses}
                         selectedClassId={selectedClassId}
+                        favoriteClassIds={favoriteClasses}
                         onSelectClass={setSelectedClassId}
                         onSelectTrack={setSelectedTrackId}
                         onSelectAILevel={setSelectedAILevel}
+                        onToggleFavorite={toggleFavoriteClass}
                       />
                     </Col>
 
@@ -678,8 +1140,11 @@ const AIManagement = () => {
                         selectedClassId={selectedClassId}
                         selectedTrackId={selectedTrackId}
                         playerTimes={playerTimes}
+                        processedClass={processed.classes[selectedClassId]}
+                        favoriteTrackIds={favoriteTracks}
                         onSelectTrack={setSelectedTrackId}
                         onSelectAILevel={setSelectedAILevel}
+                        onToggleFavorite={toggleFavoriteTrack}
                       />
                     </Col>
 
@@ -709,11 +1174,54 @@ const AIManagement = () => {
                         aiLevels={aiLevels}
                         selectedAILevel={selectedAILevel}
                         spacing={spacing}
+                        range={selectedClassId ? aiRange : undefined}
                         onSelectAILevel={setSelectedAILevel}
                         onSpacingChange={setSpacing}
                       />
                     </Col>
 
+                    {selectedTrackId && (
+                      <Col xs={12}>
+                        <AILapTimeChart
+                          sampledTrack={
+                            database.classes[selectedClassId]?.tracks[
+                              selectedTrackId
+                            ]
+                          }
+                          processedTrack={
+                            processed.classes[selectedClassId]?.tracks[
+                              selectedTrackId
+                            ]
+                          }
+                          playerTrack={
+                            playerTimes.classes[selectedClassId]?.tracks[
+                              selectedTrackId
+                            ]
+                          }
+                          minAI={aiRange.minAI}
+                          maxAI={aiRange.maxAI}
+                          aifrom={aifrom}
+                          aito={aito}
+                          selectedAILevel={selectedAILevel}
+                          onSelectAILevel={setSelectedAILevel}
+                        />
+                      </Col>
+                    )}
+
+                    <Col xs={12}>
+                      <AIRecommendationPanel
+                        recommendation={selectedRecommendation}
+                        hasSelection={!!selectedClassId && !!selectedTrackId}
+                        targetGapPct={targetGapPct}
+                        paceBasis={paceBasis}
+                        bulkCount={recommendations.length}
+                        onTargetGapChange={setTargetGapPct}
+                        onPaceBasisChange={setPaceBasis}
+                        onUseRecommendation={setSelectedAILevel}
+                        onApplyAll={() => setBulkScope("playerTimes")}
+                      />
+                    </Col>
+
                     <Col xs={12}>
                       <AIModifications
                         assets={assets}
@@ -724,7 +1232,7 @@ const AIManagement = () => {
                         aifrom={aifrom}
                         aito={aito}
                         hasModifiedPlayerTimes={hasModifiedPlayerTimes()}
-                        onApply={() => setShowApplyModal(true)}
+                        onApply={handleOpenApply}
                         onRestorePlayerTimes={handleRestorePlayerTimes}
                       />
                     </Col>
@@ -746,25 +1254,123 @@ const AIManagement = () => {
       <AIModificationsModal
         show={showApplyModal}
         assets={assets}
-        selectedClassId={selectedClassId}
-        selectedTrackId={selectedTrackId}
-        selectedAILevel={selectedAILevel}
-        spacing={spacing}
-        aifrom={aifrom}
-        aito={aito}
-        playerTimesModifications={getPlayerTimesModifications()}
+        diff={applyDiff}
         onHide={() => setShowApplyModal(false)}
-        onConfirm={handleConfirmApply}
+        onConfirm={() => handleConfirmApply()}
+        onSaveToGame={
+          aiadaptationPath ? () => handleConfirmApply(true) : undefined
+        }
+      />
+
+      {/* Bulk Apply Modal: mounted on open so its selection starts fresh */}
+      {bulkScope && (
+        <BulkApplyModal
+          show
+          assets={assets}
+          database={database}
+          processed={processed}
+          playerTimes={playerTimes}
+          targetGapPct={targetGapPct}
+          paceBasis={paceBasis}
+          initialScope={bulkScope}
+          onHide={() => setBulkScope(null)}
+          onConfirm={handleBulkApply}
+        />
+      )}
+
+      {/* Data Cleanup Review Modal: mounted on open so detection starts from settings */}
+      {showCleanupModal && (
+        <OutlierReviewModal
+          show
+          assets={assets}
+          database={database}
+          playerTimes={playerTimes}
+          onHide={() => setShowCleanupModal(false)}
+          onConfirm={handleCleanup}
+        />
+      )}
+
+      {/* Merge Report Modal */}
+      <MergeReportModal
+        show={showMergeReport}
+        assets={assets}
+        result={mergeResult}
+        onHide={() => setShowMergeReport(false)}
+        onDownload={() => {
+          if (!mergeResult) return;
+          downloadXml(mergeResult.database, mergeResult.playerTimes);
+          addLog("success", "Downloaded merged aiadaptation.xml", faDownload);
+          setShowMergeReport(false);
+        }}
       />
 
+      {/* Backups Modal: mounted on open so no stale preview is shown */}
+      {backups && aiadaptationPath && (
+        <BackupsModal
+          show
+          assets={assets}
+          filePath={aiadaptationPath}
+          backups={backups}
+          onHide={() => setBackups(null)}
+          onCompare={compareBackup}
+          onRestore={handleRestoreBackup}
+        />
+      )}
+
+      {/* File Comparison Modal */}
+      <AdaptationDiffModal
+        show={!!fileComparison}
+        assets={assets}
+        diff={fileComparison?.diff ?? null}
+        beforeName={fileComparison?.beforeName ?? ""}
+        afterName={fileComparison?.afterName ?? ""}
+        onHide={() => setFileComparison(null)}
+      />
+
+      {/* Fit Diagnostics Modal */}
+      <FitDiagnosticsModal
+        show={showDiagnosticsModal}
+        assets={assets}
+        diagnostics={processed.diagnostics ?? []}
+        onHide={() => setShowDiagnosticsModal(false)}
+        onSelect={(classId, trackId) => {
+          setSelectedClassId(classId);
+          setSelectedTrackId(trackId);
+          setSelectedAILevel(null);
+          setShowDiagnosticsModal(false);
+        }}
+      />
+
+      {/* Coverage Matrix Modal */}
+      {showCoverageModal && assets && (
+        <CoverageMatrixModal
+          show
+          assets={assets}
+          database={database}
+          processed={processed}
+          playerTimes={playerTimes}
+          selectedClassId={selectedClassId}
+          selectedTrackId={selectedTrackId}
+          onHide={() => setShowCoverageModal(false)}
+          onSelect={(classId, trackId) => {
+            setSelectedClassId(classId);
+            setSelectedTrackId(trackId);
+            setSelectedAILevel(null);
+            setShowCoverageModal(false);
+          }}
+        />
+      )}
+
       {/* Reset All Confirmation Modal */}
       <Modal show={showResetModal} onHide={cancelResetAll} data-bs-theme="dark">
         <Modal.Header closeButton className="bg-dark border-secondary">
           <Modal.Title>Reset All AI Times</Modal.Title>
         </Modal.Header>
         <Modal.Body className="bg-dark text-white">
-          <p className="text-danger">
-            ⚠️ <strong>Warning:</strong> This action cannot be undone.
+          <p className="text-warning">
+            ⚠️ <strong>Warning:</strong> This clears every AI time. You can undo
+            it from the edit history until you load another file or leave the
+            page.
           </p>
           <p>You are about to reset all AI times in the database. This will:</p>
           <ul>
@@ -31,26 +31,26 @@ import { useProcessingLog } from "../hooks/useProcessingLog";
 import { useChampionshipStore } from "../store/championshipStore";
 import { useGameDataStore } from "../store/gameDataStore";
 import { useLeaderboardAssetsStore } from "../store/leaderboardAssetsStore";
+import {
+  getAllPointsSystems,
+  usePointsSystemStore,
+} from "../store/pointsSystemStore";
 import type { ChampionshipEntry, LeaderboardAssets } from "../types";
-import type { ParsedRace } from "../types/raceResults";
+import {
+  DEFAULT_STANDINGS_CONFIG,
+  type ParsedRace,
+} from "../types/raceResults";
 import { convertAssetsForHTML } from "../utils/assetConverter";
 import {
   fetchLeaderboardAssets,
   fetchLeaderboardAssetsWithCache,
 } from "../utils/leaderboardAssets";
 import { parseResultFiles } from "../utils/raceResultParser";
-
-const buildRaceKey = (race: ParsedRace): string => {
-  const classInfo = race.slots.find(
-    (slot) => slot.ClassId !== undefined || slot.ClassName,
-  );
-  const classPart =
-    classInfo?.ClassId === undefined
-      ? classInfo?.ClassName || "unknown-class"
-      : String(classInfo.ClassId);
-  const trackPart = race.trackid ? String(race.trackid) : race.trackname;
-  return `${trackPart}::${classPart}`;
-};
+import {
+  buildLegacyRaceKey,
+  buildRaceKey,
+  getStandingsConfig,
+} from "../utils/standingsCalculator";
 
 const AssetListItem = ({
   item,
@@ -159,6 +159,7 @@ const BuildResultsDatabase = () => {
   const [htmlOverride, setHtmlOverride] = useState("");
   const [resultFiles, setResultFiles] = useState<File[]>([]);
   const [championshipAlias, setChampionshipAlias] = useState("");
+  const [ruleset, setRuleset] = useState(DEFAULT_STANDINGS_CONFIG.ruleset);
   const [parsedRaces, setParsedRaces] = useState<ParsedRace[]>([]);
   const [isParsingRaces, setIsParsingRaces] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
@@ -178,6 +179,14 @@ const BuildResultsDatabase = () => {
     (state) => state.addOrUpdate,
   );
   const setAllChampionships = useChampionshipStore((state) => state.setAll);
+  const customPointsSystems = usePointsSystemStore(
+    (state) => state.customSystems,
+  );
+
+  const pointsSystems = useMemo(
+    () => getAllPointsSystems(customPointsSystems),
+    [customPointsSystems],
+  );
 
   const resultsSummary = useMemo(() => {
     if (resultFiles.length === 0) return "No files selected";
@@ -211,6 +220,18 @@ const BuildResultsDatabase = () => {
     }
   }, [championshipAlias, parsedRaces]);
 
+  // Preselect the points system already stored for an existing championship,
+  // falling back to the default so a previous alias's choice does not carry over
+  useEffect(() => {
+    const aliasTrimmed = championshipAlias.trim().toLowerCase();
+    const existing = championships.find(
+      (c) => c.alias.toLowerCase() === aliasTrimmed,
+    );
+    setRuleset(
+      existing?.standingsConfig?.ruleset ?? DEFAULT_STANDINGS_CONFIG.ruleset,
+    );
+  }, [championshipAlias, championships]);
+
   const handleAssetsDownload = useCallback(async () => {
     setIsLoadingAssets(true);
     setAssetsError(null);
@@ -433,34 +454,41 @@ const BuildResultsDatabase = () => {
       const baseRaces = existing?.raceData ?? [];
       addLog("info", `Base races count: ${baseRaces.length}`);
 
-      // Build race key map to avoid duplicates
+      // Build race key sets to avoid importing the same session twice
       const existingKeys = new Set(baseRaces.map(buildRaceKey));
-      addLog(
-        "info",
-        `Existing unique race configurations: ${existingKeys.size}`,
+      const legacyKeys = new Set(
+        baseRaces.filter((race) => !race.raceId).map(buildLegacyRaceKey),
       );
+      addLog("info", `Existing unique races: ${existingKeys.size}`);
 
       const mergedRaces = [...baseRaces];
       let newRacesCount = 0;
 
       parsedRaces.forEach((race) => {
         const key = buildRaceKey(race);
-        if (!existingKeys.has(key)) {
-          mergedRaces.push(race);
-          existingKeys.add(key);
-          newRacesCount++;
+        if (existingKeys.has(key) || legacyKeys.has(buildLegacyRaceKey(race))) {
+          return;
         }
+        mergedRaces.push({ ...race, ruleset });
+        existingKeys.add(key);
+        newRacesCount++;
       });
 
       addLog(
         "success",
-        `${newRacesCount} new race configuration(s) added, ${parsedRaces.length - newRacesCount} duplicate(s) skipped`,
+        `${newRacesCount} new race(s) added, ${parsedRaces.length - newRacesCount} duplicate(s) skipped`,
         faCheck,
       );
 
       const { carName, carIcon } = resolveCarInfo();
       addLog("info", `Car: ${carName || "auto-detected"}`);
 
+      const rulepoints =
+        pointsSystems[ruleset] ??
+        existing?.standingsConfig?.rulepoints ??
+        DEFAULT_STANDINGS_CONFIG.rulepoints;
+      addLog("info", `Points system: ${ruleset} (${rulepoints.join("-")})`);
+
       addOrUpdateChampionship({
         alias: aliasTrimmed,
         fileName: `${aliasTrimmed}.html`,
@@ -469,6 +497,11 @@ const BuildResultsDatabase = () => {
         carName: carName || existing?.carName,
         carIcon: carIcon || existing?.carIcon,
         raceData: mergedRaces,
+        standingsConfig: {
+          ...getStandingsConfig(existing),
+          ruleset,
+          rulepoints,
+        },
       });
 
       addLog(
@@ -488,6 +521,8 @@ const BuildResultsDatabase = () => {
     championships,
     addOrUpdateChampionship,
     resolveCarInfo,
+    ruleset,
+    pointsSystems,
   ]);
 
   return (
@@ -679,6 +714,22 @@ const BuildResultsDatabase = () => {
                   the viewer.
                 </Form.Text>
               </Form.Group>
+              <Form.Group controlId="pointsSystem" className="mb-3">
+                <Form.Label className="text-white">Points system</Form.Label>
+                <Form.Select
+                  value={ruleset}
+                  onChange={(e) => setRuleset(e.target.value)}
+                >
+                  {Object.entries(pointsSystems).map(([name, points]) => (
+                    <option key={name} value={name}>
+                      {name} ({points.join("-")})
+                    </option>
+                  ))}
+                </Form.Select>
+                <Form.Text className="text-white-50">
+                  Custom points systems can be defined in Settings.
+                </Form.Text>
+              </Form.Group>
             </Col>
           </Row>
 
@@ -690,8 +741,9 @@ const BuildResultsDatabase = () => {
                 Save or update the championship in your local database using the
                 selected RaceRoom result files and the provided alias. If a
                 championship with the same alias already exists, new races will
-                be merged without duplicating events on the same track and car
-                class.
+                be merged; re-imported result files are recognised and skipped,
+                while repeat visits to the same track are kept as separate
+                rounds.
               </p>
             </Col>
             <Col lg={4}>
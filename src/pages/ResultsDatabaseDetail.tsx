@@ -1,381 +1,130 @@
-import { Fragment, useMemo } from "react";
+import { Fragment, useMemo, useState } from "react";
 import { useParams, useNavigate } from "react-router-dom";
-import { Alert, Button, Container } from "react-bootstrap";
+import { Alert, Button, Collapse, Container, Nav } from "react-bootstrap";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
 import { faDownload } from "@fortawesome/free-solid-svg-icons/faDownload";
 import { faArrowLeft } from "@fortawesome/free-solid-svg-icons/faArrowLeft";
+import { faGavel } from "@fortawesome/free-solid-svg-icons/faGavel";
+import { faSliders } from "@fortawesome/free-solid-svg-icons/faSliders";
+import { faUserGroup } from "@fortawesome/free-solid-svg-icons/faUserGroup";
+import DriverAliasesPanel from "../components/DriverAliasesPanel";
+import PenaltiesPanel from "../components/PenaltiesPanel";
+import StandingsRulesPanel from "../components/StandingsRulesPanel";
 import { useChampionshipStore } from "../store/championshipStore";
 import { useLeaderboardAssetsStore } from "../store/leaderboardAssetsStore";
-import { makeTime } from "../utils/timeUtils";
+import {
+  getAllPointsSystems,
+  usePointsSystemStore,
+} from "../store/pointsSystemStore";
+import { formatTimeDiff, makeTime } from "../utils/timeUtils";
 import { generateStandingsHTML, downloadHTML } from "../utils/htmlGenerator";
+import {
+  buildRaceKey,
+  buildStandings,
+  classifyRace,
+  filterRacesByClass,
+  getBestLapTimes,
+  formatPenalty,
+  formatStandingPosition,
+  getBestQualifyingTimes,
+  getRaceClasses,
+  getRaceLabel,
+  getStandingsConfig,
+  isHumanSlot,
+} from "../utils/standingsCalculator";
+import {
+  RACE_BONUS_BADGES,
+  RACE_BONUS_LABELS,
+  type DriverAlias,
+  type RacePenalty,
+  type StandingsConfig,
+} from "../types/raceResults";
 import "./ResultsDatabaseDetail.css";
 
-interface DriverStanding {
-  position: number;
-  driver: string;
-  vehicle: string;
-  vehicleId?: number;
-  isHuman: boolean;
-  team: string;
-  points: number;
-  raceResults: (number | null)[];
-  racePoints: (number | null)[];
-}
-
-interface TeamStanding {
-  position: number;
-  team: string;
-  entries: number;
-  points: number;
-  racePoints: (number | null)[];
-}
-
-interface VehicleStanding {
-  position: number;
-  vehicle: string;
-  vehicleId?: number;
-  entries: number;
-  points: number;
-  racePoints: (number | null)[];
-}
-
-interface BestTime {
-  driver: string;
-  vehicle: string;
-  vehicleId?: number;
-  isHuman: boolean;
-  time: string;
-  timeMs: number;
-}
-
-const DEFAULT_POINTS_SYSTEM = [25, 18, 15, 12, 10, 8, 6, 4, 2, 1];
-
-const parseTime = (timeStr: string | undefined): number => {
-  if (!timeStr) return Infinity;
-  const parts = timeStr.split(":");
-  if (parts.length === 3) {
-    const [h, m, s] = parts.map(Number);
-    return h * 3600 + m * 60 + s;
-  } else if (parts.length === 2) {
-    const [m, s] = parts.map(Number);
-    return m * 60 + s;
-  }
-  return Infinity;
-};
-
-const formatTimeDiff = (baseMs: number, currentMs: number): string => {
-  const diff = currentMs - baseMs;
-  if (diff === 0) return "";
-  const sign = diff > 0 ? "+ " : "- ";
-  const absDiff = Math.abs(diff) / 1000;
-  return `${sign}${absDiff.toFixed(3)}`;
-};
-
-const getRacePosition = (slots: any[], driver: string): number | null => {
-  const sortedSlots = [...slots].sort((a, b) => {
-    const aFinished = a.FinishStatus === "Finished" || !!a.TotalTime;
-    const bFinished = b.FinishStatus === "Finished" || !!b.TotalTime;
-    if (aFinished !== bFinished) return bFinished ? 1 : -1;
-
-    const aTime = parseTime(a.TotalTime);
-    const bTime = parseTime(b.TotalTime);
-    return aTime - bTime;
-  });
-
-  const index = sortedSlots.findIndex((s) => s.Driver === driver);
-  return index >= 0 && sortedSlots[index].TotalTime ? index + 1 : null;
-};
-
-const calculateDriverStandings = (races: any[]): DriverStanding[] => {
-  // Identify human players: the first driver in each race's slots array
-  const humanDriverNames = new Set<string>();
-  for (const race of races) {
-    if (race.slots && race.slots.length > 0) {
-      humanDriverNames.add(race.slots[0].Driver);
-    }
-  }
-
-  const driverMap = new Map<
-    string,
-    {
-      vehicle: string;
-      vehicleId?: number;
-      isHuman: boolean;
-      team: string;
-      raceResults: (number | null)[];
-      racePoints: (number | null)[];
-    }
-  >();
-
-  for (const race of races) {
-    for (const slot of race.slots) {
-      if (driverMap.has(slot.Driver)) {
-        // Driver already exists, no need to update isHuman
-      } else {
-        driverMap.set(slot.Driver, {
-          vehicle: slot.Vehicle,
-          vehicleId: slot.VehicleId,
-          isHuman: humanDriverNames.has(slot.Driver),
-          team: slot.Team,
-          raceResults: [],
-          racePoints: [],
-        });
-      }
-    }
-  }
-
-  races.forEach((race, raceIdx) => {
-    driverMap.forEach((data, driver) => {
-      const position = getRacePosition(race.slots, driver);
-      data.raceResults[raceIdx] = position;
-
-      if (position !== null && position <= DEFAULT_POINTS_SYSTEM.length) {
-        data.racePoints[raceIdx] = DEFAULT_POINTS_SYSTEM[position - 1];
-      } else {
-        data.racePoints[raceIdx] = null;
-      }
-    });
-  });
-
-  const standings: DriverStanding[] = [];
-  driverMap.forEach((data, driver) => {
-    const points = data.racePoints.reduce<number>(
-      (sum, p) => sum + (p || 0),
-      0,
-    );
-    standings.push({
-      position: 0,
-      driver,
-      vehicle: data.vehicle,
-      vehicleId: data.vehicleId,
-      team: data.team,
-      points,
-      raceResults: data.raceResults,
-      racePoints: data.racePoints,
-      isHuman: data.isHuman,
-    });
-  });
-
-  standings.sort((a, b) => b.points - a.points);
-  standings.forEach((s, i) => (s.position = i + 1));
-
-  return standings;
-};
-
-const calculateTeamStandings = (races: any[]): TeamStanding[] => {
-  const teamMap = new Map<
-    string,
-    { entries: Set<string>; racePoints: (number | null)[] }
-  >();
-
-  races.forEach((race, raceIdx) => {
-    const teamRacePoints = new Map<string, number>();
-
-    race.slots.forEach((slot: any) => {
-      const team = slot.Team || "No Team";
-      const position = getRacePosition(race.slots, slot.Driver);
-
-      if (!teamMap.has(team)) {
-        teamMap.set(team, { entries: new Set(), racePoints: [] });
-      }
-
-      teamMap.get(team)!.entries.add(slot.Driver);
-
-      if (position !== null && position <= DEFAULT_POINTS_SYSTEM.length) {
-        const pts = DEFAULT_POINTS_SYSTEM[position - 1];
-        teamRacePoints.set(team, (teamRacePoints.get(team) || 0) + pts);
-      }
-    });
-
-    teamMap.forEach((data, team) => {
-      data.racePoints[raceIdx] = teamRacePoints.get(team) || null;
-    });
-  });
-
-  const standings: TeamStanding[] = [];
-  teamMap.forEach((data, team) => {
-    const points = data.racePoints.reduce<number>(
-      (sum, p) => sum + (p || 0),
-      0,
-    );
-    standings.push({
-      position: 0,
-      team,
-      entries: data.entries.size,
-      points,
-      racePoints: data.racePoints,
-    });
-  });
-
-  standings.sort((a, b) => b.points - a.points);
-  standings.forEach((s, i) => (s.position = i + 1));
-
-  return standings;
-};
-
-const calculateVehicleStandings = (races: any[]): VehicleStanding[] => {
-  const vehicleMap = new Map<
-    string,
-    {
-      vehicleId?: number;
-      entries: Set<string>;
-      racePoints: (number | null)[];
-    }
-  >();
-
-  races.forEach((race, raceIdx) => {
-    const vehicleRacePoints = new Map<string, number>();
-
-    race.slots.forEach((slot: any) => {
-      const vehicle = slot.Vehicle;
-      const position = getRacePosition(race.slots, slot.Driver);
-
-      if (!vehicleMap.has(vehicle)) {
-        vehicleMap.set(vehicle, {
-          vehicleId: slot.VehicleId,
-          entries: new Set(),
-          racePoints: [],
-        });
-      }
-
-      vehicleMap.get(vehicle)!.entries.add(slot.Driver);
-
-      if (position !== null && position <= DEFAULT_POINTS_SYSTEM.length) {
-        const pts = DEFAULT_POINTS_SYSTEM[position - 1];
-        vehicleRacePoints.set(
-          vehicle,
-          (vehicleRacePoints.get(vehicle) || 0) + pts,
-        );
-      }
-    });
-
-    vehicleMap.forEach((data, vehicle) => {
-      data.racePoints[raceIdx] = vehicleRacePoints.get(vehicle) || null;
-    });
-  });
-
-  const standings: VehicleStanding[] = [];
-  vehicleMap.forEach((data, vehicle) => {
-    const points = data.racePoints.reduce<number>(
-      (sum, p) => sum + (p || 0),
-      0,
-    );
-    standings.push({
-      position: 0,
-      vehicle,
-      vehicleId: data.vehicleId,
-      entries: data.entries.size,
-      points,
-      racePoints: data.racePoints,
-    });
-  });
-
-  standings.sort((a, b) => b.points - a.points);
-  standings.forEach((s, i) => (s.position = i + 1));
-
-  return standings;
-};
-
-const getBestLapTimesPerRace = (races: any[]): BestTime[][] => {
-  return races.map((race) => {
-    const raceLapTimes: BestTime[] = [];
-    const humanDriver =
-      race.slots && race.slots.length > 0 ? race.slots[0].Driver : null;
-
-    race.slots.forEach((slot: any) => {
-      if (slot.BestLap) {
-        const timeMs = parseTime(slot.BestLap) * 1000;
-        if (Number.isFinite(timeMs) && timeMs > 0) {
-          raceLapTimes.push({
-            driver: slot.Driver,
-            vehicle: slot.Vehicle,
-            vehicleId: slot.VehicleId,
-            isHuman: slot.Driver === humanDriver,
-            time: makeTime(parseTime(slot.BestLap)),
-            timeMs,
-          });
-        }
-      }
-    });
-
-    const sorted = [...raceLapTimes].sort(
-      (a: BestTime, b: BestTime) => a.timeMs - b.timeMs,
-    );
-    return sorted;
-  });
-};
-
-const getBestQualifyingTimesPerRace = (races: any[]): BestTime[][] => {
-  return races.map((race) => {
-    const raceQualTimes: BestTime[] = [];
-    const humanDriver =
-      race.slots && race.slots.length > 0 ? race.slots[0].Driver : null;
-
-    race.slots.forEach((slot: any) => {
-      if (slot.QualTime) {
-        const timeMs = parseTime(slot.QualTime) * 1000;
-        if (Number.isFinite(timeMs) && timeMs > 0) {
-          raceQualTimes.push({
-            driver: slot.Driver,
-            vehicle: slot.Vehicle,
-            vehicleId: slot.VehicleId,
-            isHuman: slot.Driver === humanDriver,
-            time: makeTime(parseTime(slot.QualTime)),
-            timeMs,
-          });
-        }
-      }
-    });
-
-    const sorted = [...raceQualTimes].sort(
-      (a: BestTime, b: BestTime) => a.timeMs - b.timeMs,
-    );
-    return sorted;
-  });
-};
-
 const ResultsDatabaseDetail = () => {
   const { alias } = useParams<{ alias: string }>();
   const navigate = useNavigate();
   const championships = useChampionshipStore((state) => state.championships);
+  const addOrUpdateChampionship = useChampionshipStore(
+    (state) => state.addOrUpdate,
+  );
   const leaderboardAssets = useLeaderboardAssetsStore((state) => state.assets);
+  const customPointsSystems = usePointsSystemStore(
+    (state) => state.customSystems,
+  );
 
   const championship = useMemo(() => {
     return championships.find((c) => c.alias === alias);
   }, [championships, alias]);
 
+  const pointsSystems = useMemo(
+    () => getAllPointsSystems(customPointsSystems),
+    [customPointsSystems],
+  );
+  const [showRules, setShowRules] = useState(false);
+  const [showPenalties, setShowPenalties] = useState(false);
+  const [showAliases, setShowAliases] = useState(false);
+  const [selectedClass, setSelectedClass] = useState<string | null>(null);
+
+  const raceClasses = useMemo(
+    () => getRaceClasses(championship?.raceData ?? []),
+    [championship],
+  );
+  const activeClass =
+    raceClasses.find((c) => c.key === selectedClass) ?? raceClasses[0];
+
   const {
+    races,
     driverStandings,
     teamStandings,
     vehicleStandings,
     bestLapTimes,
     bestQualTimes,
+    classifiedRaces,
     raceHeaders,
   } = useMemo(() => {
     if (!championship?.raceData || championship.raceData.length === 0) {
       return {
+        races: [],
         driverStandings: [],
         teamStandings: [],
         vehicleStandings: [],
         bestLapTimes: [],
         bestQualTimes: [],
+        classifiedRaces: [],
         raceHeaders: [],
       };
     }
 
-    const races = championship.raceData;
+    // Multi-class championships are scored and shown one class at a time
+    const races =
+      raceClasses.length > 1 && activeClass
+        ? filterRacesByClass(championship.raceData, activeClass.key)
+        : championship.raceData;
+    const config = getStandingsConfig(championship);
+    const penalties = championship.penalties ?? [];
+    const standings = buildStandings(
+      races,
+      config,
+      penalties,
+      championship.driverAliases,
+    );
     return {
-      driverStandings: calculateDriverStandings(races),
-      teamStandings: calculateTeamStandings(races),
-      vehicleStandings: calculateVehicleStandings(races),
-      bestLapTimes: getBestLapTimesPerRace(races),
-      bestQualTimes: getBestQualifyingTimesPerRace(races),
+      races,
+      driverStandings: standings.drivers,
+      teamStandings: standings.teams,
+      vehicleStandings: standings.vehicles,
+      bestLapTimes: getBestLapTimes(races),
+      bestQualTimes: getBestQualifyingTimes(races),
+      classifiedRaces: races.map((race) =>
+        classifyRace(race, config, penalties),
+      ),
       raceHeaders: races.map((r) => ({
         name: r.trackname || "Unknown Track",
         time: r.timestring || "",
       })),
     };
-  }, [championship]);
+  }, [championship, raceClasses, activeClass]);
 
   const getVehicleIcon = (vehicleId?: number) => {
     if (vehicleId === undefined || !leaderboardAssets) return null;
@@ -457,6 +206,13 @@ const ResultsDatabaseDetail = () => {
   const seconds = String(generatedDate.getSeconds()).padStart(2, "0");
   const formattedDate = `${day}/${month}/${year} ${hours}:${minutes}:${seconds}`;
 
+  const standingsConfig = getStandingsConfig(championship);
+  const showGrossPoints = standingsConfig.countedResults.mode !== "all";
+  const penalties = championship.penalties ?? [];
+  const racesByKey = new Map(
+    championship.raceData.map((race) => [buildRaceKey(race), race]),
+  );
+
   const getPositionClass = (pos: number) => {
     if (pos === 1) return "pos1";
     if (pos === 2) return "pos2";
@@ -483,10 +239,26 @@ const ResultsDatabaseDetail = () => {
       championship.raceData!,
       championship.alias,
       leaderboardAssetsForExport,
+      undefined,
+      standingsConfig,
+      penalties,
+      championship.driverAliases,
     );
     downloadHTML(html, `${championship.alias}.html`);
   };
 
+  const handleStandingsConfigChange = (config: StandingsConfig) => {
+    addOrUpdateChampionship({ ...championship, standingsConfig: config });
+  };
+
+  const handlePenaltiesChange = (updated: RacePenalty[]) => {
+    addOrUpdateChampionship({ ...championship, penalties: updated });
+  };
+
+  const handleDriverAliasesChange = (updated: DriverAlias[]) => {
+    addOrUpdateChampionship({ ...championship, driverAliases: updated });
+  };
+
   return (
     <Container fluid className="py-4">
       <Button
@@ -515,14 +287,93 @@ const ResultsDatabaseDetail = () => {
         <p className="results-subtitle mb-0">
           Generated from R3E Toolbox • {formattedDate}
         </p>
-        <div className="mt-3">
+        <div className="mt-3 d-flex flex-wrap align-items-center gap-3">
           <Button variant="primary" size="sm" onClick={handleDownloadHTML}>
             <FontAwesomeIcon icon={faDownload} className="me-2" />
             Download as HTML
           </Button>
+          <Button
+            variant="outline-light"
+            size="sm"
+            onClick={() => setShowRules(!showRules)}
+            aria-expanded={showRules}
+          >
+            <FontAwesomeIcon icon={faSliders} className="me-2" />
+            Scoring rules
+          </Button>
+          <Button
+            variant="outline-light"
+            size="sm"
+            onClick={() => setShowPenalties(!showPenalties)}
+            aria-expanded={showPenalties}
+          >
+            <FontAwesomeIcon icon={faGavel} className="me-2" />
+            Penalties{penalties.length > 0 && ` (${penalties.length})`}
+          </Button>
+          <Button
+            variant="outline-light"
+            size="sm"
+            onClick={() => setShowAliases(!showAliases)}
+            aria-expanded={showAliases}
+          >
+            <FontAwesomeIcon icon={faUserGroup} className="me-2" />
+            Drivers
+          </Button>
+          <span className="text-white-50 small">
+            {standingsConfig.ruleset} ({standingsConfig.rulepoints.join("-")})
+          </span>
         </div>
+        <Collapse in={showRules}>
+          <div>
+            <div className="pt-3">
+              <StandingsRulesPanel
+                config={standingsConfig}
+                pointsSystems={pointsSystems}
+                raceCount={championship.raceData.length}
+                onChange={handleStandingsConfigChange}
+              />
+            </div>
+          </div>
+        </Collapse>
+        <Collapse in={showPenalties}>
+          <div>
+            <div className="pt-3">
+              <PenaltiesPanel
+                races={championship.raceData}
+                penalties={penalties}
+                onChange={handlePenaltiesChange}
+              />
+            </div>
+          </div>
+        </Collapse>
+        <Collapse in={showAliases}>
+          <div>
+            <div className="pt-3">
+              <DriverAliasesPanel
+                races={championship.raceData}
+                aliases={championship.driverAliases ?? []}
+                onChange={handleDriverAliasesChange}
+              />
+            </div>
+          </div>
+        </Collapse>
       </div>
 
+      {raceClasses.length > 1 && (
+        <Nav
+          variant="tabs"
+          className="class-tabs mb-3"
+          activeKey={activeClass?.key}
+          onSelect={(key) => setSelectedClass(key)}
+        >
+          {raceClasses.map((raceClass) => (
+            <Nav.Item key={raceClass.key}>
+              <Nav.Link eventKey={raceClass.key}>{raceClass.name}</Nav.Link>
+            </Nav.Item>
+          ))}
+        </Nav>
+      )}
+
       {/* Driver Standings */}
       <div className="results-table-wrapper">
         <table className="results-table">
@@ -533,7 +384,8 @@ const ResultsDatabaseDetail = () => {
               <th rowSpan={2}>Driver</th>
               <th rowSpan={2}>Vehicle</th>
               <th rowSpan={2}>Team</th>
-              <th rowSpan={2}>Points</th>
+              <th rowSpan={2}>{showGrossPoints ? "Net" : "Points"}</th>
+              {showGrossPoints && <th rowSpan={2}>Gross</th>}
               {raceHeaders.map((header, idx) => {
                 const trackIcon = getTrackIcon(header.name);
                 return (
@@ -569,10 +421,10 @@ const ResultsDatabaseDetail = () => {
               );
               return (
                 <tr
-                  key={standing.driver}
+                  key={standing.driverKey}
                   className={standing.isHuman ? "human-driver" : ""}
                 >
-                  <td>{standing.position}</td>
+                  <td>{formatStandingPosition(standing)}</td>
                   <td className="driver-name-cell">{standing.driver}</td>
                   <td>
                     {vehicleIcon && (
@@ -586,17 +438,51 @@ const ResultsDatabaseDetail = () => {
                   </td>
                   <td>{standing.team}</td>
                   <td className="points-cell">{standing.points}</td>
+                  {showGrossPoints && <td>{standing.grossPoints}</td>}
                   {raceHeaders.map((_, idx) => {
                     const pts = standing.racePoints[idx];
+                    const dropped =
+                      standing.droppedResults[idx] && pts !== null;
+                    const bonuses = standing.raceBonuses[idx];
+                    const racePenalties = standing.racePenalties[idx];
+                    const cellTitle = [
+                      ...(dropped ? ["Dropped result"] : []),
+                      ...bonuses.map(
+                        (bonus) =>
+                          `${RACE_BONUS_LABELS[bonus]} +${standingsConfig.bonusPoints[bonus]}`,
+                      ),
+                      ...racePenalties.map(formatPenalty),
+                    ].join(", ");
                     const result = standing.raceResults[idx];
+
                     const posClass =
                       result !== null && result <= 3
                         ? getPositionClass(result)
                         : "";
                     return (
-                      <Fragment key={`race-${standing.driver}-${idx}`}>
-                        <td className="points-cell">{pts ?? "-"}</td>
-                        <td className={posClass}>{result ?? "-"}</td>
+                      <Fragment key={`race-${standing.driverKey}-${idx}`}>
+                        <td
+                          className={`points-cell${dropped ? " dropped-score" : ""}`}
+                          title={cellTitle || undefined}
+                        >
+                          {pts ?? "-"}
+                          {bonuses.map((bonus) => (
+                            <span
+                              key={bonus}
+                              className={`bonus-badge bonus-${bonus}`}
+                            >
+                              {RACE_BONUS_BADGES[bonus]}
+                            </span>
+                          ))}
+                          {racePenalties.length > 0 && (
+                            <span className="bonus-badge penalty-badge">
+                              PEN
+                            </span>
+                          )}
+                        </td>
+                        <td className={posClass}>
+                          {result ?? standing.raceStatuses[idx] ?? "-"}
+                        </td>
                       </Fragment>
                     );
                   })}
@@ -631,7 +517,7 @@ const ResultsDatabaseDetail = () => {
             <tbody>
               {teamStandings.map((standing) => (
                 <tr key={standing.team}>
-                  <td>{standing.position}</td>
+                  <td>{formatStandingPosition(standing)}</td>
                   <td>{standing.team}</td>
                   <td>{standing.entries}</td>
                   <td className="points-cell">{standing.points}</td>
@@ -679,7 +565,7 @@ const ResultsDatabaseDetail = () => {
               );
               return (
                 <tr key={standing.vehicle}>
-                  <td>{standing.position}</td>
+                  <td>{formatStandingPosition(standing)}</td>
                   <td>
                     {vehicleIcon && (
                       <img
@@ -897,47 +783,30 @@ const ResultsDatabaseDetail = () => {
           <tbody>
             {Array.from(
               {
-                length: Math.max(
-                  ...(championship.raceData?.map(
-                    (race) => race.slots.length,
-                  ) || [0]),
-                ),
+                length: Math.max(...races.map((race) => race.slots.length), 0),
               },
               (_, posIdx) => (
                 <tr key={`race-result-pos-${posIdx}`}>
                   <td>{posIdx + 1}</td>
-                  {championship.raceData?.map((race, raceIdx) => {
-                    const sortedSlots = [...race.slots].sort((a, b) => {
-                      const aFinished =
-                        a.FinishStatus === "Finished" || !!a.TotalTime;
-                      const bFinished =
-                        b.FinishStatus === "Finished" || !!b.TotalTime;
-                      if (aFinished !== bFinished) return bFinished ? 1 : -1;
-                      const aTime = parseTime(a.TotalTime);
-                      const bTime = parseTime(b.TotalTime);
-                      return aTime - bTime;
-                    });
-
-                    const slot = sortedSlots[posIdx];
-                    if (!slot?.TotalTime) {
+                  {races.map((race, raceIdx) => {
+                    const classified = classifiedRaces[raceIdx][posIdx];
+                    if (!classified) {
                       return (
                         <td key={`race-result-${raceIdx}-${posIdx}`}>-</td>
                       );
                     }
 
-                    const totalTimeSeconds = parseTime(slot.TotalTime);
-                    const formattedTime = Number.isFinite(totalTimeSeconds)
-                      ? makeTime(totalTimeSeconds)
-                      : slot.TotalTime;
+                    const { slot, totalSeconds, status } = classified;
+                    let formattedTime = status ?? slot.TotalTime;
+                    if (!status && totalSeconds !== undefined) {
+                      formattedTime = makeTime(totalSeconds);
+                    }
                     const vehicleIcon = getVehicleIcon(slot.VehicleId);
                     const vehicleName = getVehicleName(
                       slot.VehicleId,
                       slot.Vehicle,
                     );
-                    const isHuman =
-                      race.slots &&
-                      race.slots.length > 0 &&
-                      race.slots[0].Driver === slot.Driver;
+                    const isHuman = isHumanSlot(slot, race);
 
                     return (
                       <td
@@ -959,6 +828,11 @@ const ResultsDatabaseDetail = () => {
                             <span>{vehicleName}</span>
                           </div>
                           <div className="result-time">{formattedTime}</div>
+                          {classified.penalties.map((penalty) => (
+                            <div key={penalty.id} className="result-penalty">
+                              {formatPenalty(penalty)}
+                            </div>
+                          ))}
                         </div>
                       </td>
                     );
@@ -969,6 +843,34 @@ const ResultsDatabaseDetail = () => {
           </tbody>
         </table>
       </div>
+
+      {/* Stewards' Decisions */}
+      {penalties.length > 0 && (
+        <div className="results-table-wrapper">
+          <table className="results-table">
+            <caption>Stewards' Decisions</caption>
+            <thead>
+              <tr>
+                <th>Race</th>
+                <th>Driver</th>
+                <th>Decision</th>
+              </tr>
+            </thead>
+            <tbody>
+              {penalties.map((penalty) => {
+                const race = racesByKey.get(penalty.raceId);
+                return (
+                  <tr key={penalty.id}>
+                    <td>{race ? getRaceLabel(race) : "-"}</td>
+                    <td>{penalty.driver}</td>
+                    <td>{formatPenalty(penalty)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
     </Container>
   );
 };
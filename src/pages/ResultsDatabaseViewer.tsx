@@ -25,6 +25,7 @@ import { useGameDataStore } from "../store/gameDataStore";
 import { useLeaderboardAssetsStore } from "../store/leaderboardAssetsStore";
 import type { ChampionshipEntry } from "../types";
 import { convertAssetsForHTML } from "../utils/assetConverter";
+import { getStandingsConfig } from "../utils/standingsCalculator";
 import {
   downloadHTML,
   generateChampionshipIndexHTML,
@@ -111,6 +112,9 @@ const ResultsDatabaseViewer = () => {
       championship.alias,
       assetsForHTML,
       gameData,
+      getStandingsConfig(championship),
+      championship.penalties,
+      championship.driverAliases,
     );
 
     downloadHTML(html, championship.fileName);
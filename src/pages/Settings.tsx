@@ -2,18 +2,34 @@ import { faGear } from "@fortawesome/free-solid-svg-icons/faGear";
 import { faSync } from "@fortawesome/free-solid-svg-icons/faSync";
 import { faCheck } from "@fortawesome/free-solid-svg-icons/faCheck";
 import { faExclamationTriangle } from "@fortawesome/free-solid-svg-icons/faExclamationTriangle";
+import { faListOl } from "@fortawesome/free-solid-svg-icons/faListOl";
+import { faTrashCan } from "@fortawesome/free-solid-svg-icons/faTrashCan";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
 import { useMemo, useState } from "react";
-import { Button, Card, Col, Container, Form, Row } from "react-bootstrap";
+import {
+  Badge,
+  Button,
+  Card,
+  Col,
+  Container,
+  Form,
+  ListGroup,
+  Row,
+} from "react-bootstrap";
 import type { Config } from "../config";
 import { CFG } from "../config";
 import { useConfigStore } from "../store/configStore";
 import { useGameDataStore } from "../store/gameDataStore";
+import { usePointsSystemStore } from "../store/pointsSystemStore";
 import { useElectronAPI } from "../hooks/useElectronAPI";
 import { useProcessingLog } from "../hooks/useProcessingLog";
 import { validateR3eData } from "../utils/r3eDataValidator";
+import AIRangeOverridesEditor from "../components/AIRangeOverridesEditor";
 import ProcessingLog from "../components/ProcessingLog";
 import type { RaceRoomData } from "../types";
+import { DEFAULT_POINTS_SYSTEM } from "../types/raceResults";
+import { FIT_MODEL_LABELS } from "../utils/fitting";
+import { parseJson } from "../utils/jsonParser";
 
 type NumericConfigKey = {
   [K in keyof Config]: Config[K] extends number ? K : never;
@@ -75,8 +91,48 @@ const numberFields: NumberField[] = [
     step: 1,
     helper: "Step between AI levels when writing generated times",
   },
+  {
+    key: "targetGapPct",
+    label: "Target gap to player pct",
+    min: -10,
+    max: 10,
+    step: 0.1,
+    helper:
+      "Recommended AI lap time relative to your pace (e.g. 0.5 = AI 0.5% slower)",
+  },
+  {
+    key: "outlierMadThreshold",
+    label: "Outlier z-score",
+    min: 1,
+    max: 10,
+    step: 0.5,
+    helper: "Player laps above this modified z-score are flagged (MAD method)",
+  },
+  {
+    key: "outlierPctOffBest",
+    label: "Outlier pct off best",
+    min: 0.5,
+    max: 20,
+    step: 0.5,
+    helper: "Player laps slower than the best by more than this % are flagged",
+  },
 ];
 
+/**
+ * Parses a points list typed as "25, 18, 15" or "25-18-15".
+ * Returns null when any entry is not a non-negative number.
+ */
+const parsePointsList = (text: string): number[] | null => {
+  const parts = text
+    .split(/[\s,;-]+/)
+    .map((part) => part.trim())
+    .filter(Boolean);
+  if (parts.length === 0) return null;
+  const points = parts.map(Number);
+  if (points.some((p) => !Number.isFinite(p) || p < 0)) return null;
+  return points;
+};
+
 const Settings = () => {
   const electron = useElectronAPI();
   const { config, setConfig, resetConfig } = useConfigStore();
@@ -84,12 +140,26 @@ const Settings = () => {
   const setForceOnboarding = useGameDataStore(
     (state) => state.setForceOnboarding,
   );
+  const gameData = useGameDataStore((state) => state.gameData);
   const clearGameData = useGameDataStore((state) => state.clearGameData);
   const setGameData = useGameDataStore((state) => state.setGameData);
+  const customPointsSystems = usePointsSystemStore(
+    (state) => state.customSystems,
+  );
+  const addOrUpdatePointsSystem = usePointsSystemStore(
+    (state) => state.addOrUpdate,
+  );
+  const removePointsSystem = usePointsSystemStore((state) => state.remove);
   const { logs, addLog, logsEndRef, getLogVariant } = useProcessingLog();
 
   const [localConfig, setLocalConfig] = useState<Config>(config);
+  const assets = useMemo(
+    () => (gameData ? parseJson(gameData) : null),
+    [gameData],
+  );
   const [isReloading, setIsReloading] = useState(false);
+  const [newSystemName, setNewSystemName] = useState("");
+  const [newSystemPoints, setNewSystemPoints] = useState("");
 
   const handleNumberChange = (key: NumericConfigKey, value: number) => {
     if (Number.isFinite(value)) {
@@ -101,6 +171,10 @@ const Settings = () => {
     setLocalConfig({ ...localConfig, [key]: value });
   };
 
+  const handleFitModelChange = (value: string) => {
+    setLocalConfig({ ...localConfig, fitModel: value as Config["fitModel"] });
+  };
+
   const handleSaveConfig = () => {
     setConfig(localConfig);
     addLog("success", "Settings saved successfully!", faCheck);
@@ -112,6 +186,29 @@ const Settings = () => {
     addLog("success", "Settings reset to defaults!", faCheck);
   };
 
+  const handleSavePointsSystem = () => {
+    const name = newSystemName.trim();
+    const points = parsePointsList(newSystemPoints);
+    if (!name) {
+      addLog("error", "Points system name cannot be empty");
+      return;
+    }
+    if (!points) {
+      addLog(
+        "error",
+        "Points must be a list of non-negative numbers, e.g. 25, 18, 15",
+      );
+      return;
+    }
+    if (!addOrUpdatePointsSystem(name, points)) {
+      addLog("error", `"${name}" is a built-in points system`);
+      return;
+    }
+    addLog("success", `Points system "${name}" saved`, faCheck);
+    setNewSystemName("");
+    setNewSystemPoints("");
+  };
+
   const handleReloadGameData = async () => {
     if (!electron.isElectron) {
       addLog("error", "Game data reload is only available in Electron mode");
@@ -171,6 +268,18 @@ const Settings = () => {
         helper:
           "If enabled, use every lap time instead of the average per AI level when fitting.",
       },
+      {
+        key: "weightBySamples" as BooleanConfigKey,
+        label: "Weight by sampled races",
+        helper:
+          "If enabled, AI levels sampled over more races count more in the fit (weighted least squares). Applies to averaged times only.",
+      },
+      {
+        key: "paceTransfer" as BooleanConfigKey,
+        label: "Extrapolate sparse tracks",
+        helper:
+          "If enabled, tracks with too few AI samples are predicted from the class's fits on other tracks, anchored on their samples or your lap time.",
+      },
     ],
     [],
   );
@@ -220,6 +329,63 @@ const Settings = () => {
               </Col>
             ))}
 
+            <Col md={6}>
+              <Form.Group controlId="fitModel">
+                <Form.Label className="d-flex justify-content-between">
+                  <span>Fit model</span>
+                  <small className="text-white-50">
+                    Default: {CFG.fitModel}
+                  </small>
+                </Form.Label>
+                <Form.Select
+                  value={localConfig.fitModel}
+                  onChange={(e) => handleFitModelChange(e.target.value)}
+                >
+                  <option value="auto">Auto (best residuals)</option>
+                  {Object.entries(FIT_MODEL_LABELS).map(([key, label]) => (
+                    <option key={key} value={key}>
+                      {label}
+                    </option>
+                  ))}
+                </Form.Select>
+                <Form.Text className="text-white-50">
+                  Regression used to predict lap times per AI level. Robust
+                  models resist outlier samples; Auto keeps the validated model
+                  with the smallest residuals per track and class, penalising
+                  the quadratic's extra coefficient.
+                </Form.Text>
+              </Form.Group>
+            </Col>
+
+            <Col md={6}>
+              <Form.Group controlId="outlierMethod">
+                <Form.Label className="d-flex justify-content-between">
+                  <span>Player lap outlier detection</span>
+                  <small className="text-white-50">
+                    Default: {CFG.outlierMethod}
+                  </small>
+                </Form.Label>
+                <Form.Select
+                  value={localConfig.outlierMethod}
+                  onChange={(e) =>
+                    setLocalConfig({
+                      ...localConfig,
+                      outlierMethod: e.target.value as Config["outlierMethod"],
+                    })
+                  }
+                >
+                  <option value="mad">Median absolute deviation</option>
+                  <option value="pctOffBest">
+                    Percentage off the best lap
+                  </option>
+                </Form.Select>
+                <Form.Text className="text-white-50">
+                  Default test used by &quot;Clean up data&quot; in AI
+                  Management to suggest player laps to remove.
+                </Form.Text>
+              </Form.Group>
+            </Col>
+
             {booleanFields.map((field) => (
               <Col md={6} key={field.key}>
                 <Form.Group className="d-flex align-items-center justify-content-between p-3 border border-secondary rounded">
@@ -266,6 +432,25 @@ const Settings = () => {
                 </Form.Group>
               </Col>
             )}
+
+            <Col md={12}>
+              <div className="p-3 border border-secondary rounded">
+                <div className="mb-2">AI range overrides</div>
+                <Form.Text className="d-block text-white-50 mb-3">
+                  Min/max AI and spacing for specific classes or class/track
+                  combinations. Blank fields inherit from the class entry, then
+                  from the global values above.
+                </Form.Text>
+                <AIRangeOverridesEditor
+                  assets={assets}
+                  overrides={localConfig.aiRangeOverrides}
+                  defaults={localConfig}
+                  onChange={(aiRangeOverrides) =>
+                    setLocalConfig({ ...localConfig, aiRangeOverrides })
+                  }
+                />
+              </div>
+            </Col>
           </Row>
 
           <div className="d-flex justify-content-end mt-4 gap-2">
@@ -279,6 +464,95 @@ const Settings = () => {
         </Card.Body>
       </Card>
 
+      <Card bg="dark" text="white" className="border-secondary mb-4">
+        <Card.Header className="bg-dark border-secondary">
+          <h5 className="m-0">
+            <FontAwesomeIcon icon={faListOl} className="me-2" />
+            Points Systems
+          </h5>
+        </Card.Header>
+        <Card.Body>
+          <p className="text-white-50">
+            Points awarded by finishing position. Each championship picks one of
+            these systems when it is created or from its detail page.
+          </p>
+
+          <ListGroup variant="flush" className="mb-3">
+            {Object.entries(DEFAULT_POINTS_SYSTEM).map(([name, points]) => (
+              <ListGroup.Item
+                key={name}
+                className="bg-dark text-white border-secondary d-flex justify-content-between align-items-center"
+              >
+                <div>
+                  <strong>{name}</strong>{" "}
+                  <Badge bg="secondary" className="ms-1">
+                    Built-in
+                  </Badge>
+                  <div className="text-white-50 small">
+                    {points.join(" - ")}
+                  </div>
+                </div>
+              </ListGroup.Item>
+            ))}
+            {Object.entries(customPointsSystems).map(([name, points]) => (
+              <ListGroup.Item
+                key={name}
+                className="bg-dark text-white border-secondary d-flex justify-content-between align-items-center"
+              >
+                <div>
+                  <strong>{name}</strong>
+                  <div className="text-white-50 small">
+                    {points.join(" - ")}
+                  </div>
+                </div>
+                <Button
+                  variant="outline-danger"
+                  size="sm"
+                  onClick={() => removePointsSystem(name)}
+                  title="Remove points system"
+                >
+                  <FontAwesomeIcon icon={faTrashCan} />
+                </Button>
+              </ListGroup.Item>
+            ))}
+          </ListGroup>
+
+          <Row className="g-2 align-items-end">
+            <Col md={4}>
+              <Form.Group controlId="newPointsSystemName">
+                <Form.Label>Name</Form.Label>
+                <Form.Control
+                  type="text"
+                  placeholder="e.g. league2026"
+                  value={newSystemName}
+                  onChange={(e) => setNewSystemName(e.target.value)}
+                />
+              </Form.Group>
+            </Col>
+            <Col md={6}>
+              <Form.Group controlId="newPointsSystemPoints">
+                <Form.Label>Points by position</Form.Label>
+                <Form.Control
+                  type="text"
+                  placeholder="e.g. 30, 25, 21, 18, 15, 12, 10, 8, 6, 4"
+                  value={newSystemPoints}
+                  onChange={(e) => setNewSystemPoints(e.target.value)}
+                />
+              </Form.Group>
+            </Col>
+            <Col md={2}>
+              <Button
+                variant="success"
+                className="w-100"
+                onClick={handleSavePointsSystem}
+              >
+                Save
+              </Button>
+            </Col>
+          </Row>
+        </Card.Body>
+      </Card>
+
       <Card bg="dark" text="white" className="border-secondary">
         <Card.Header className="bg-dark border-secondary">
           <h5 className="m-0">
@@ -36,6 +36,15 @@ export const useConfigStore = create<ConfigState>()(
       name: "r3e-toolbox-config",
       storage: getStorage(),
       version: 1,
+      // Fill settings added after the config was persisted with their defaults
+      merge: (persisted, current) => ({
+        ...current,
+        ...(persisted as Partial<ConfigState>),
+        config: {
+          ...CFG,
+          ...(persisted as Partial<ConfigState> | undefined)?.config,
+        },
+      }),
     },
   ),
 );
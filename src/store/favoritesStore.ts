@@ -0,0 +1,67 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { getStorage } from "./electronStorage";
+
+// Number of recently selected class/track combinations kept
+const MAX_RECENTS = 8;
+
+export interface RecentSelection {
+  classid: string;
+  trackid: string;
+}
+
+interface FavoritesState {
+  favoriteClasses: string[];
+  favoriteTracks: string[];
+  recents: RecentSelection[]; // Most recent first
+  toggleFavoriteClass: (classid: string) => void;
+  toggleFavoriteTrack: (trackid: string) => void;
+  addRecent: (classid: string, trackid: string) => void;
+  clearRecents: () => void;
+}
+
+const toggle = (ids: string[], id: string) =>
+  ids.includes(id) ? ids.filter((x) => x !== id) : [...ids, id];
+
+export const useFavoritesStore = create<FavoritesState>()(
+  persist(
+    (set) => ({
+      favoriteClasses: [],
+      favoriteTracks: [],
+      recents: [],
+
+      toggleFavoriteClass: (classid) =>
+        set((state) => ({
+          favoriteClasses: toggle(state.favoriteClasses, classid),
+        })),
+
+      toggleFavoriteTrack: (trackid) =>
+        set((state) => ({
+          favoriteTracks: toggle(state.favoriteTracks, trackid),
+        })),
+
+      addRecent: (classid, trackid) =>
+        set((state) => {
+          if (
+            state.recents[0]?.classid === classid &&
+            state.recents[0]?.trackid === trackid
+          ) {
+            return state;
+          }
+          const others = state.recents.filter(
+            (r) => r.classid !== classid || r.trackid !== trackid,
+          );
+          return {
+            recents: [{ classid, trackid }, ...others].slice(0, MAX_RECENTS),
+          };
+        }),
+
+      clearRecents: () => set({ recents: [] }),
+    }),
+    {
+      name: "r3e-toolbox-favorites",
+      storage: getStorage(),
+      version: 1,
+    },
+  ),
+);
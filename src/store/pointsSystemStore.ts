@@ -0,0 +1,57 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { DEFAULT_POINTS_SYSTEM } from "../types/raceResults";
+import { getStorage } from "./electronStorage";
+
+interface PointsSystemState {
+  customSystems: Record<string, number[]>;
+  addOrUpdate: (name: string, points: number[]) => boolean;
+  remove: (name: string) => void;
+}
+
+export const usePointsSystemStore = create<PointsSystemState>()(
+  persist(
+    (set) => ({
+      customSystems: {},
+
+      addOrUpdate: (name, points) => {
+        const trimmedName = name.trim();
+        // Built-in systems cannot be overridden
+        if (!trimmedName || trimmedName in DEFAULT_POINTS_SYSTEM) {
+          return false;
+        }
+        if (points.length === 0) {
+          return false;
+        }
+
+        set((state) => ({
+          customSystems: { ...state.customSystems, [trimmedName]: points },
+        }));
+        return true;
+      },
+
+      remove: (name) =>
+        set((state) => {
+          const updated = { ...state.customSystems };
+          delete updated[name];
+          return { customSystems: updated };
+        }),
+    }),
+    {
+      name: "r3e-toolbox-points-systems",
+      storage: getStorage(),
+      version: 1,
+    },
+  ),
+);
+
+/**
+ * Returns built-in and custom points systems merged in a single lookup,
+ * built-in entries first.
+ */
+export const getAllPointsSystems = (
+  customSystems: Record<string, number[]>,
+): Record<string, number[]> => ({
+  ...DEFAULT_POINTS_SYSTEM,
+  ...customSystems,
+});
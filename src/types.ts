@@ -1,4 +1,9 @@
-import type { ParsedRace } from "./types/raceResults";
+import type {
+  DriverAlias,
+  ParsedRace,
+  RacePenalty,
+  StandingsConfig,
+} from "./types/raceResults";
 
 export interface RaceRoomClass {
   Id: number;
@@ -70,6 +75,9 @@ export interface ChampionshipEntry {
   carName?: string;
   carIcon?: string;
   raceData?: ParsedRace[]; // Store parsed races for later viewing
+  standingsConfig?: StandingsConfig; // Scoring rules (defaults to DEFAULT_STANDINGS_CONFIG)
+  penalties?: RacePenalty[]; // Stewards' decisions layered over raceData
+  driverAliases?: DriverAlias[]; // Manual merges and splits of driver identities
 }
 
 export interface AITimeEntry {
@@ -110,18 +118,63 @@ export interface DatabaseClass {
   tracks: Record<string, DatabaseTrack>;
 }
 
+export type FitModel = "linear" | "quadratic" | "huber" | "theilSen";
+
+export type PaceBasis = "average" | "best"; // Player lap time AI recommendations are based on
+// Per-class or per-class/track replacement for the global AI range and spacing; unset fields inherit
+export interface AIRangeOverride {
+  minAI?: number;
+  maxAI?: number;
+  spacing?: number;
+}
+
+export type OutlierMethod = "mad" | "pctOffBest"; // Player lap time outlier test: median absolute deviation or distance from the best lap
+
+export type FitRejectionReason =
+  | "tooFewLevels" // Sampled AI levels span less than testMinAIdiffs
+  | "fitError" // No model could be fitted to the points
+  | "nonMonotonic" // Predicted times do not decrease with AI level
+  | "tooManyFailures"; // Too many points deviate beyond testMaxTimePct
+
+/**
+ * Outcome of fitting one class/track pair: the model chosen (or the best
+ * rejected candidate), its goodness of fit and why it was rejected, if it was.
+ */
+export interface FitDiagnostics {
+  classid: string;
+  trackid: string;
+  accepted: boolean;
+  rejection?: FitRejectionReason;
+  model?: FitModel;
+  coefficients?: { a: number; b: number; c?: number };
+  sampledLevels: number; // Distinct AI levels with lap times
+  points: number; // Points the model was fitted to
+  rSquared?: number;
+  rmse?: number; // Root mean squared error, in seconds
+  meanResidual?: number; // Mean absolute residual, in seconds
+  band?: number; // Half-width of the ~95% prediction band (1.96 * RMSE), in seconds
+  tested: number; // Points checked against testMaxTimePct
+  passed: number;
+  extrapolated?: boolean; // Predicted from the class's other tracks instead
+}
+
 export interface DatabaseTrack {
   minAI?: number;
   maxAI?: number;
   ailevels: Record<number, number[]>;
   samplesCount?: Record<number, number>;
+  fitModel?: FitModel; // Processed tracks only: model that produced the predictions
+  fitResidual?: number; // Processed tracks only: mean absolute residual in seconds
+  extrapolated?: boolean; // Processed tracks only: predicted from the class's other tracks
 }
 
 export interface Database {
   classes: Record<string, DatabaseClass>;
 }
 
-export interface ProcessedDatabase extends Database {}
+export interface ProcessedDatabase extends Database {
+  diagnostics?: FitDiagnostics[]; // One entry per class/track pair in the source database
+}
 
 export interface PlayerTimes {
   classes: Record<string, PlayerTimesClass>;
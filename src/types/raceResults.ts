@@ -13,9 +13,12 @@ export interface RaceSlot {
   BestLap?: string;
   QualTime?: string;
   Position?: number;
-  FinishStatus?: string;
+  FinishStatus?: string; // Normalised to FinishStatus by the parser; older data may hold raw values
+  LapsCompleted?: number;
 }
 
+export type FinishStatus = "Finished" | "DNF" | "DNS" | "DQ";
+
 export interface RaceSession {
   Type: string; // "Race", "Race2", "Race3", "Qualify"
   Players: Array<{
@@ -30,6 +33,7 @@ export interface RaceSession {
     TotalTime?: number;
     BestLapTime?: number;
     QualifyingTime?: number;
+    RaceSessionLaps?: Array<{ Time?: number }>;
     [key: string]: any;
   }>;
 }
@@ -62,6 +66,7 @@ export interface SinglePlayerRaceResult {
     classId?: number;
     className?: string;
     finishStatus?: string;
+    lapsCompleted?: number;
     totalTime?: number;
     bestLapTime?: number;
     qualifyingTime?: number;
@@ -76,6 +81,8 @@ export interface ParsedRace {
   slots: RaceSlot[];
   ruleset: string;
   filename?: string;
+  sessionType?: string; // "Race", "Race2", "Race3"
+  raceId?: string; // Stable identity: session timestamp + session type + file content hash
 }
 
 export interface RaceDatabase {
@@ -83,15 +90,204 @@ export interface RaceDatabase {
   races: ParsedRace[];
 }
 
+export interface RaceClass {
+  key: string; // ClassId when known, otherwise the class name
+  name: string;
+}
+
+export interface ClassifiedSlot {
+  slot: RaceSlot;
+  position: number | null; // Position within the driver's class, null when not classified
+  points: number; // Position points plus bonus points, minus deductions
+  bonuses: RaceBonus[];
+  penalties: RacePenalty[]; // Stewards' decisions applied to this entry
+  totalSeconds?: number; // Total race time including time penalties
+  status?: string; // Why the entry is not classified: NC, DNF, DNS or DQ
+}
+
+export interface DriverStanding {
+  position: number;
+  tied: boolean; // Shares its position with another entry after all tie-breaks
+  driverKey: string; // Identity the standing is keyed by (see getDriverIdentities)
+  driver: string; // Alias name, or the most recent name the driver raced under
+  vehicle: string;
+  vehicleId?: number;
+  isHuman: boolean;
+  team: string;
+  points: number; // Net total after dropped results
+  grossPoints: number; // Total of every race before dropped results
+  raceResults: (number | null)[];
+  racePoints: (number | null)[];
+  droppedResults: boolean[]; // True for race scores that do not count
+  raceBonuses: RaceBonus[][]; // Bonuses earned in each race
+  racePenalties: RacePenalty[][]; // Penalties applied in each race
+  raceStatuses: (string | null)[]; // NC, DNF, DNS or DQ where not classified
+}
+
+export interface TeamStanding {
+  position: number;
+  tied: boolean;
+  team: string;
+  entries: number;
+  points: number;
+  racePoints: (number | null)[];
+}
+
+export interface VehicleStanding {
+  position: number;
+  tied: boolean;
+  vehicle: string;
+  vehicleId?: number;
+  entries: number;
+  points: number;
+  racePoints: (number | null)[];
+}
+
+export interface ChampionshipStandings {
+  drivers: DriverStanding[];
+  teams: TeamStanding[];
+  vehicles: VehicleStanding[];
+}
+
+export interface BestTime {
+  driver: string;
+  vehicle: string;
+  vehicleId?: number;
+  isHuman: boolean;
+  time: string;
+  timeMs: number;
+}
+
+export type TieBreakRule =
+  | "wins"
+  | "seconds"
+  | "thirds"
+  | "podiums"
+  | "countback"
+  | "lastRace"
+  | "headToHead";
+
+export const TIE_BREAK_RULE_LABELS: Record<TieBreakRule, string> = {
+  wins: "Most wins",
+  seconds: "Most 2nd places",
+  thirds: "Most 3rd places",
+  podiums: "Most podiums",
+  countback: "Full countback (P1, P2, P3, ...)",
+  lastRace: "Best result in the most recent race",
+  headToHead: "Head-to-head record",
+};
+
+export const DEFAULT_TIE_BREAKERS: TieBreakRule[] = [
+  "wins",
+  "seconds",
+  "thirds",
+  "lastRace",
+  "headToHead",
+];
+
+export type CountedResultsMode = "all" | "bestOf" | "dropWorst";
+
+export interface CountedResultsRule {
+  mode: CountedResultsMode;
+  count: number; // N in "best N results" or "drop N worst results"
+}
+
+export const COUNTED_RESULTS_MODE_LABELS: Record<CountedResultsMode, string> = {
+  all: "Count all results",
+  bestOf: "Count best N results",
+  dropWorst: "Drop N worst results",
+};
+
+export type PenaltyType =
+  "time" | "positionDrop" | "disqualification" | "pointsDeduction";
+
+export const PENALTY_TYPE_LABELS: Record<PenaltyType, string> = {
+  time: "Time penalty (seconds)",
+  positionDrop: "Position drop (places)",
+  disqualification: "Disqualification",
+  pointsDeduction: "Points deduction",
+};
+
+/**
+ * Stewards' decision stored on the championship and applied on top of the
+ * parsed results, which are never modified.
+ */
+export interface RacePenalty {
+  id: string;
+  raceId: string; // Key of the race the decision applies to (see buildRaceKey)
+  driver: string; // Name shown for the decision
+  sourceKey?: string; // Entry the decision applies to (see DriverEntry); older decisions match by name
+  type: PenaltyType;
+  value: number; // Seconds, places or points; unused for disqualifications
+  note?: string;
+}
+
+/**
+ * Maps a driver entry (see DriverEntry) to the identity it counts as in the
+ * standings. Entries mapped to the same identity are merged; a race-scoped
+ * alias splits one race off an entry.
+ */
+export interface DriverAlias {
+  sourceKey: string;
+  raceId?: string; // Only for this race (see buildRaceKey); all races when omitted
+  identity: string;
+}
+
+export interface DriverIdentity {
+  key: string;
+  name: string;
+  sourceKey: string; // Identity before aliases: UserId, or name when there is none
+}
+
+// A driver as found in the race files, before aliases are applied
+export interface DriverEntry {
+  sourceKey: string;
+  userId?: number;
+  names: string[];
+  raceIds: string[];
+}
+
+export type RaceBonus = "pole" | "fastestLap" | "finish";
+
+export const RACE_BONUS_LABELS: Record<RaceBonus, string> = {
+  pole: "Pole position",
+  fastestLap: "Fastest lap",
+  finish: "Finished",
+};
+
+// Short labels for the badges shown next to race scores
+export const RACE_BONUS_BADGES: Record<RaceBonus, string> = {
+  pole: "P",
+  fastestLap: "FL",
+  finish: "F",
+};
+
+export interface BonusPointsRule {
+  pole: number;
+  fastestLap: number;
+  fastestLapTopN: number; // Fastest lap only scores inside the top N (0 = any classified finish)
+  finish: number;
+}
+
 export interface StandingsConfig {
-  ruleset: string;
-  rulepoints: Record<string, number[]>;
-  minracetime: number; // minutes
-  newdescr: string;
-  forcedkey: string;
+  ruleset: string; // Name of the points system (built-in or custom)
+  rulepoints: number[]; // Points awarded by finishing position (index 0 = P1)
+  tieBreakers: TieBreakRule[]; // Applied in order when drivers are level on points
+  countedResults: CountedResultsRule; // Which driver race scores count towards the total
+  bonusPoints: BonusPointsRule; // Extra points added to the race score
+  classificationThreshold: number; // Percentage of the class leader's laps needed to be classified
 }
 
 export const DEFAULT_POINTS_SYSTEM: Record<string, number[]> = {
   default: [25, 18, 15, 12, 10, 8, 6, 4, 2, 1],
   dtm2023: [28, 25, 22, 19, 16, 13, 10, 8, 6, 4, 3, 2, 1],
 };
+
+export const DEFAULT_STANDINGS_CONFIG: StandingsConfig = {
+  ruleset: "default",
+  rulepoints: DEFAULT_POINTS_SYSTEM.default,
+  tieBreakers: DEFAULT_TIE_BREAKERS,
+  countedResults: { mode: "all", count: 0 },
+  bonusPoints: { pole: 0, fastestLap: 0, fastestLapTopN: 0, finish: 0 },
+  classificationThreshold: 90,
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { CFG } from "../config";
+import { resolveAIRange } from "./aiLevels";
+
+const config = {
+  ...CFG,
+  aiRangeOverrides: {
+    "1": { minAI: 90, spacing: 2 },
+    "1/10": { maxAI: 110 },
+    "2": { minAI: 115, maxAI: 100 },
+  },
+};
+
+describe("resolveAIRange", () => {
+  it("uses the global range without an override", () => {
+    expect(resolveAIRange(config, "3", "10")).toEqual({
+      minAI: 80,
+      maxAI: 120,
+      spacing: 1,
+      source: "global",
+    });
+  });
+
+  it("merges track and class overrides field by field", () => {
+    expect(resolveAIRange(config, "1", "10")).toEqual({
+      minAI: 90,
+      maxAI: 110,
+      spacing: 2,
+      source: "track",
+    });
+    expect(resolveAIRange(config, "1", "11")).toMatchObject({
+      maxAI: 120,
+      source: "class",
+    });
+  });
+
+  it("ignores an override with minAI above maxAI", () => {
+    expect(resolveAIRange(config, "2").source).toBe("global");
+  });
+
+  it("ignores overrides outside the AI levels or without a positive spacing", () => {
+    const source = (override: Record<string, number>) =>
+      resolveAIRange({ ...config, aiRangeOverrides: { "4": override } }, "4")
+        .source;
+    expect(source({ spacing: 0 })).toBe("global");
+    expect(source({ spacing: -2 })).toBe("global");
+    expect(source({ minAI: 40 })).toBe("global");
+    expect(source({ maxAI: 150 })).toBe("global");
+    expect(source({ spacing: 2 })).toBe("class");
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Helpers for writing generated AI levels into the database.
+ */
+
+import type { Config } from "../config";
+import type { Database, DatabaseClass, DatabaseTrack } from "../types";
+
+export interface AIRange {
+  minAI: number;
+  maxAI: number;
+  spacing: number;
+  source: "global" | "class" | "track"; // Most specific config entry used
+}
+
+// AI levels the game accepts
+export const MIN_AI_LEVEL = 60;
+export const MAX_AI_LEVEL = 120;
+
+const isUsableRange = ({ minAI, maxAI, spacing }: AIRange) =>
+  Number.isInteger(minAI) &&
+  Number.isInteger(maxAI) &&
+  minAI >= MIN_AI_LEVEL &&
+  maxAI <= MAX_AI_LEVEL &&
+  minAI <= maxAI &&
+  spacing >= 1;
+
+export const aiRangeOverrideKey = (classid: string, trackid?: string) =>
+  trackid ? `${classid}/${trackid}` : classid;
+
+/**
+ * AI range and spacing for a class/track: a class/track override, then a
+ * class override, then the global config, field by field. An override that
+ * leaves levels 60-120, puts minAI above maxAI or spaces levels by less than
+ * 1 (stepping by it would never get past maxAI) is ignored.
+ */
+export const resolveAIRange = (
+  config: Config,
+  classid?: string,
+  trackid?: string,
+): AIRange => {
+  const global: AIRange = {
+    minAI: config.minAI,
+    maxAI: config.maxAI,
+    spacing: config.aiSpacing,
+    source: "global",
+  };
+  if (!classid) return global;
+
+  const overrides = config.aiRangeOverrides ?? {};
+  const classOverride = overrides[aiRangeOverrideKey(classid)];
+  const trackOverride = trackid
+    ? overrides[aiRangeOverrideKey(classid, trackid)]
+    : undefined;
+  if (!classOverride && !trackOverride) return global;
+
+  const range: AIRange = {
+    minAI: trackOverride?.minAI ?? classOverride?.minAI ?? global.minAI,
+    maxAI: trackOverride?.maxAI ?? classOverride?.maxAI ?? global.maxAI,
+    spacing: trackOverride?.spacing ?? classOverride?.spacing ?? global.spacing,
+    source: trackOverride ? "track" : "class",
+  };
+  return isUsableRange(range) ? range : global;
+};
+
+/**
+ * AI range of aiNumLevels levels, spaced by spacing and centred on the
+ * selected level, clamped to minAI..maxAI.
+ */
+export const getAIRange = (
+  selectedAILevel: number | null,
+  aiNumLevels: number,
+  spacing: number,
+  minAI: number,
+  maxAI: number,
+): { aifrom: number; aito: number } => {
+  const aifrom = selectedAILevel
+    ? Math.max(minAI, selectedAILevel - Math.floor(aiNumLevels / 2) * spacing)
+    : minAI;
+  const aito = Math.min(maxAI, aifrom + (aiNumLevels - 1) * spacing);
+  return { aifrom, aito };
+};
+
+/**
+ * Replaces the AI levels of a class/track with predictions from its processed
+ * track for aifrom..aito in aiSpacing steps, and updates the track and class
+ * min/max AI. Mutates the given database; returns the number of levels written.
+ */
+export const applyGeneratedLevels = (
+  database: Database,
+  processedTrack: DatabaseTrack,
+  classid: string,
+  trackid: string,
+  aifrom: number,
+  aito: number,
+  aiSpacing: number,
+): number => {
+  // Ensure class and track exist in database
+  if (!database.classes[classid]) {
+    database.classes[classid] = { tracks: {} };
+  }
+  if (!database.classes[classid].tracks[trackid]) {
+    database.classes[classid].tracks[trackid] = {
+      ailevels: {},
+      samplesCount: {},
+    };
+  }
+
+  const track = database.classes[classid].tracks[trackid];
+
+  // Replace all existing AI levels for this class/track with generated values
+  track.ailevels = {};
+  track.samplesCount = {};
+
+  // Populate the track with generated AI levels from aifrom to aito with aiSpacing step
+  let addedCount = 0;
+  for (let ai = aifrom; ai <= aito; ai += aiSpacing) {
+    const generatedTime = processedTrack.ailevels[ai]?.[0];
+    if (generatedTime) {
+      track.ailevels[ai] = [generatedTime];
+      track.samplesCount[ai] = 0; // Mark as generated
+      addedCount++;
+    }
+  }
+
+  // Update min/max AI for the track based on newly added levels
+  const aiLevels = Object.keys(track.ailevels).map(Number);
+  track.minAI = Math.min(...aiLevels);
+  track.maxAI = Math.max(...aiLevels);
+
+  // Update min/max AI for the class based on all tracks
+  const classData = database.classes[classid];
+  const allTrackAIs = Object.values(classData.tracks).flatMap((t) =>
+    Object.keys(t.ailevels).map(Number),
+  );
+  classData.minAI = Math.min(...allTrackAIs);
+  classData.maxAI = Math.max(...allTrackAIs);
+
+  return addedCount;
+};
+
+export interface BulkApplyEntry {
+  classid: string;
+  trackid: string;
+  centerAI: number;
+  aifrom: number;
+  aito: number;
+  spacing: number;
+  levels: number; // Levels that will be written
+  replaced: number; // Existing AI levels that will be overwritten
+}
+
+/**
+ * Describes what applyGeneratedLevels will do for one class/track when its
+ * AI range is centred on centerAI, without touching the database.
+ */
+export const planBulkEntry = (
+  database: Database,
+  processedTrack: DatabaseTrack,
+  classid: string,
+  trackid: string,
+  centerAI: number,
+  aiNumLevels: number,
+  spacing: number,
+  minAI: number,
+  maxAI: number,
+): BulkApplyEntry => {
+  const { aifrom, aito } = getAIRange(
+    centerAI,
+    aiNumLevels,
+    spacing,
+    minAI,
+    maxAI,
+  );
+  let levels = 0;
+  for (let ai = aifrom; ai <= aito; ai += spacing) {
+    if (processedTrack.ailevels[ai]?.[0]) levels++;
+  }
+  const existing = database.classes[classid]?.tracks[trackid]?.ailevels ?? {};
+  const replaced = Object.values(existing).filter((t) => t.length > 0).length;
+
+  return {
+    classid,
+    trackid,
+    centerAI,
+    aifrom,
+    aito,
+    spacing,
+    levels,
+    replaced,
+  };
+};
+
+/**
+ * Recalculates min/max AI levels for a track after removal
+ */
+export const recalculateTrackMinMax = (track: DatabaseTrack): void => {
+  const aiLevels = Object.keys(track.ailevels).map(Number);
+  if (aiLevels.length > 0) {
+    track.minAI = Math.min(...aiLevels);
+    track.maxAI = Math.max(...aiLevels);
+  } else {
+    delete track.minAI;
+    delete track.maxAI;
+  }
+};
+
+/**
+ * Recalculates min/max AI levels for a class based on all tracks
+ */
+export const recalculateClassMinMax = (classData: DatabaseClass): void => {
+  const allTrackAIs = Object.values(classData.tracks).flatMap((t) =>
+    Object.keys(t.ailevels).map(Number),
+  );
+  if (allTrackAIs.length > 0) {
+    classData.minAI = Math.min(...allTrackAIs);
+    classData.maxAI = Math.max(...allTrackAIs);
+  } else {
+    delete classData.minAI;
+    delete classData.maxAI;
+  }
+};
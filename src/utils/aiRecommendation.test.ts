@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { recommendAILevel } from "./aiRecommendation";
+
+const processed = { ailevels: { 98: [101], 99: [100.5], 100: [100] } };
+
+describe("recommendAILevel", () => {
+  it("picks the level closest to the player's pace plus the gap", () => {
+    const recommendation = recommendAILevel(
+      processed,
+      { playertimes: [99, 101] },
+      0.5,
+      "average",
+    );
+    expect(recommendation).toMatchObject({
+      playerTime: 100,
+      aiLevel: 99,
+      predictedTime: 100.5,
+      clamped: false,
+    });
+  });
+
+  it("clamps to the fastest level when the target is out of range", () => {
+    const recommendation = recommendAILevel(
+      processed,
+      { playertimes: [99, 101], playertime: 99 },
+      0.5,
+      "best",
+    );
+    expect(recommendation).toMatchObject({ aiLevel: 100, clamped: true });
+  });
+
+  it("needs player times", () => {
+    expect(recommendAILevel(processed, {}, 0.5, "best")).toBeUndefined();
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * AI level recommendation: finds the AI level whose predicted lap time sits
+ * at a target gap from the player's pace.
+ */
+
+import type {
+  DatabaseTrack,
+  PaceBasis,
+  PlayerTimes,
+  PlayerTimesTrack,
+  ProcessedDatabase,
+} from "../types";
+
+export interface AIRecommendation {
+  classid: string;
+  trackid: string;
+  playerTime: number; // Player pace the gap is applied to
+  targetTime: number;
+  aiLevel: number;
+  predictedTime: number; // Predicted AI lap time at aiLevel
+  clamped: boolean; // Target lies outside the predicted range; aiLevel is the nearest end
+}
+
+export const getPlayerPace = (
+  playerTrack: PlayerTimesTrack | undefined,
+  basis: PaceBasis,
+): number | undefined => {
+  const times = playerTrack?.playertimes ?? [];
+  if (basis === "average" && times.length > 0) {
+    return times.reduce((sum, t) => sum + t, 0) / times.length;
+  }
+  return (
+    playerTrack?.playertime ?? (times.length ? Math.min(...times) : undefined)
+  );
+};
+
+/**
+ * Recommends the AI level whose predicted time is closest to the player's
+ * pace plus gapPct percent (positive = AI slower than the player).
+ */
+export const recommendAILevel = (
+  processedTrack: DatabaseTrack | undefined,
+  playerTrack: PlayerTimesTrack | undefined,
+  gapPct: number,
+  basis: PaceBasis,
+): Omit<AIRecommendation, "classid" | "trackid"> | undefined => {
+  const playerTime = getPlayerPace(playerTrack, basis);
+  if (!processedTrack || !playerTime) return undefined;
+
+  const predictions = Object.entries(processedTrack.ailevels)
+    .map(([ai, times]) => ({ ai: Number(ai), time: times[0] }))
+    .filter((p) => p.time !== undefined);
+  if (predictions.length === 0) return undefined;
+
+  const targetTime = playerTime * (1 + gapPct / 100);
+  const best = predictions.reduce((closest, p) =>
+    Math.abs(p.time - targetTime) < Math.abs(closest.time - targetTime)
+      ? p
+      : closest,
+  );
+  const times = predictions.map((p) => p.time);
+
+  return {
+    playerTime,
+    targetTime,
+    aiLevel: best.ai,
+    predictedTime: best.time,
+    clamped: targetTime < Math.min(...times) || targetTime > Math.max(...times),
+  };
+};
+
+/**
+ * Recommendations for every class/track with both a valid fit and player times.
+ */
+export const recommendAll = (
+  processed: ProcessedDatabase,
+  playerTimes: PlayerTimes,
+  gapPct: number,
+  basis: PaceBasis,
+): AIRecommendation[] => {
+  const recommendations: AIRecommendation[] = [];
+  for (const [classid, classData] of Object.entries(playerTimes.classes)) {
+    for (const [trackid, playerTrack] of Object.entries(classData.tracks)) {
+      const recommendation = recommendAILevel(
+        processed.classes[classid]?.tracks[trackid],
+        playerTrack,
+        gapPct,
+        basis,
+      );
+      if (recommendation) {
+        recommendations.push({ classid, trackid, ...recommendation });
+      }
+    }
+  }
+  return recommendations;
+};
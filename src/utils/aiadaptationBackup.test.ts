@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { backupFileName, parseBackupDate } from "./aiadaptationBackup";
+
+describe("backup names", () => {
+  const date = new Date(2026, 9, 19, 15, 30, 5, 42);
+
+  it("stamps the local date and time to the millisecond", () => {
+    expect(backupFileName(date)).toBe(
+      "aiadaptation.xml.20261019-153005-042.bak",
+    );
+  });
+
+  it("reads the date back from the name", () => {
+    expect(parseBackupDate(backupFileName(date))).toEqual(date);
+  });
+
+  it("still reads backups named without milliseconds", () => {
+    expect(parseBackupDate("aiadaptation.xml.20261019-153005.bak")).toEqual(
+      new Date(2026, 9, 19, 15, 30, 5),
+    );
+  });
+
+  it("ignores other files in the folder", () => {
+    expect(parseBackupDate("aiadaptation.xml")).toBeNull();
+    expect(parseBackupDate("aiadaptation.xml.2026-10-19.bak")).toBeNull();
+  });
+});
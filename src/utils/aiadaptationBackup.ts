@@ -0,0 +1,98 @@
+/**
+ * Writes aiadaptation.xml back into the game's UserData folder (Electron),
+ * keeping a timestamped copy of the previous file next to it.
+ */
+
+import type { useElectronAPI } from "../hooks/useElectronAPI";
+
+type ElectronAPI = ReturnType<typeof useElectronAPI>;
+
+// aiadaptation.xml.20261019-153005-042.bak; older backups have no milliseconds
+const BACKUP_PATTERN = /^aiadaptation\.xml\.(\d{8})-(\d{6})(?:-(\d{3}))?\.bak$/;
+
+export interface AdaptationBackup {
+  name: string;
+  path: string;
+  date: Date;
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+
+// Works for both Windows and POSIX paths since this runs in the renderer
+const splitPath = (filePath: string) => {
+  const idx = Math.max(filePath.lastIndexOf("\\"), filePath.lastIndexOf("/"));
+  return {
+    dir: filePath.slice(0, idx),
+    sep: idx === -1 ? "/" : filePath[idx],
+  };
+};
+
+export const backupFileName = (date: Date) =>
+  `aiadaptation.xml.${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(
+    date.getDate(),
+  )}-${pad(date.getHours())}${pad(date.getMinutes())}${pad(
+    date.getSeconds(),
+  )}-${pad(date.getMilliseconds(), 3)}.bak`;
+
+export const parseBackupDate = (name: string): Date | null => {
+  const match = BACKUP_PATTERN.exec(name);
+  if (!match) return null;
+  const [, day, time, millis = "0"] = match;
+  return new Date(
+    Number(day.slice(0, 4)),
+    Number(day.slice(4, 6)) - 1,
+    Number(day.slice(6, 8)),
+    Number(time.slice(0, 2)),
+    Number(time.slice(2, 4)),
+    Number(time.slice(4, 6)),
+    Number(millis),
+  );
+};
+
+/**
+ * Backs up the current file, then overwrites it with content. Returns the
+ * backup path, or null when the file did not exist yet. Any other read or
+ * backup failure aborts before the file is touched.
+ */
+export const saveWithBackup = async (
+  electron: ElectronAPI,
+  filePath: string,
+  content: string,
+): Promise<string | null> => {
+  let current: string | null = null;
+  try {
+    current = await electron.readFile(filePath);
+  } catch (error) {
+    // Only a missing file is safe to write without a backup
+    if (!String(error).includes("ENOENT")) throw error;
+  }
+
+  let backupPath: string | null = null;
+  if (current !== null) {
+    const { dir, sep } = splitPath(filePath);
+    backupPath = `${dir}${sep}${backupFileName(new Date())}`;
+    await electron.writeFile(backupPath, current);
+  }
+
+  await electron.writeFile(filePath, content);
+  return backupPath;
+};
+
+/**
+ * Backups next to filePath, newest first.
+ */
+export const listBackups = async (
+  electron: ElectronAPI,
+  filePath: string,
+): Promise<AdaptationBackup[]> => {
+  const { dir, sep } = splitPath(filePath);
+  const names = await electron.readdir(dir);
+  return names
+    .map((name) => ({
+      name,
+      path: `${dir}${sep}${name}`,
+      date: parseBackupDate(name),
+    }))
+    .filter((backup): backup is AdaptationBackup => backup.date !== null)
+    .sort((a, b) => b.date.getTime() - a.date.getTime());
+};
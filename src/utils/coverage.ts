@@ -0,0 +1,140 @@
+/**
+ * Coverage of the AI adaptation data across every class/track combination,
+ * used to plan which combinations still need test races.
+ */
+
+import type {
+  Assets,
+  ClassAsset,
+  Database,
+  FitRejectionReason,
+  PlayerTimes,
+  ProcessedDatabase,
+  TrackAsset,
+} from "../types";
+import { buildEmptyMatrix, mergeAIData, mergePlayerTimes } from "./xmlBuilder";
+
+export type CoverageFitStatus = "fitted" | "extrapolated" | "rejected" | "none";
+
+export interface CoverageCell {
+  classid: string;
+  trackid: string;
+  sampledLevels: number; // AI levels with lap times from real races
+  generatedLevels: number; // AI levels written by the toolbox (numberOfSampledRaces = 0)
+  playerLaps: number;
+  fit: CoverageFitStatus;
+  rejection?: FitRejectionReason;
+}
+
+export interface CoverageRow {
+  track: TrackAsset;
+  cells: CoverageCell[]; // Same order as CoverageMatrix.classes
+}
+
+export interface CoverageMatrix {
+  classes: ClassAsset[];
+  rows: CoverageRow[];
+  maxSampledLevels: number;
+}
+
+export interface CoverageSummary {
+  withData: number;
+  fitted: number;
+  extrapolated: number;
+  needsRaces: number; // Player laps but no fit of their own
+}
+
+export const hasCoverageData = (cell: CoverageCell) =>
+  cell.sampledLevels + cell.generatedLevels + cell.playerLaps > 0;
+
+/**
+ * Builds the full class/track grid from the same matrix the XML export uses,
+ * annotated with the fit outcome of the processed database.
+ */
+export const buildCoverageMatrix = (
+  assets: Assets,
+  database: Database,
+  processed: ProcessedDatabase,
+  playerTimes: PlayerTimes,
+): CoverageMatrix => {
+  const matrix = buildEmptyMatrix(assets);
+  mergeAIData(database, matrix);
+  mergePlayerTimes(playerTimes, matrix);
+
+  const diagnostics = new Map(
+    (processed.diagnostics ?? []).map((d) => [`${d.classid}/${d.trackid}`, d]),
+  );
+
+  let maxSampledLevels = 0;
+  const rows = assets.tracksSorted.map((track) => {
+    const classMap = matrix.get(track.id);
+    const cells = assets.classesSorted.map((cls): CoverageCell => {
+      const entry = classMap?.get(cls.id);
+      let sampledLevels = 0;
+      let generatedLevels = 0;
+      for (const [ai, times] of Object.entries(entry?.aiData ?? {})) {
+        if (times.length === 0) continue;
+        if (entry?.samplesCount[Number(ai)] === 0) generatedLevels++;
+        else sampledLevels++;
+      }
+      maxSampledLevels = Math.max(maxSampledLevels, sampledLevels);
+
+      const fit = diagnostics.get(`${cls.id}/${track.id}`);
+      return {
+        classid: cls.id,
+        trackid: track.id,
+        sampledLevels,
+        generatedLevels,
+        playerLaps: entry?.playerTimes.length ?? 0,
+        fit: !fit
+          ? "none"
+          : fit.accepted
+            ? "fitted"
+            : fit.extrapolated
+              ? "extrapolated"
+              : "rejected",
+        rejection: fit?.rejection,
+      };
+    });
+    return { track, cells };
+  });
+
+  return { classes: assets.classesSorted, rows, maxSampledLevels };
+};
+
+/**
+ * Drops the classes and tracks without any data in the grid.
+ */
+export const trimCoverageMatrix = (matrix: CoverageMatrix): CoverageMatrix => {
+  const usedColumns = matrix.classes
+    .map((_, idx) => idx)
+    .filter((idx) =>
+      matrix.rows.some((row) => hasCoverageData(row.cells[idx])),
+    );
+  return {
+    ...matrix,
+    classes: usedColumns.map((idx) => matrix.classes[idx]),
+    rows: matrix.rows
+      .filter((row) => row.cells.some(hasCoverageData))
+      .map((row) => ({
+        ...row,
+        cells: usedColumns.map((idx) => row.cells[idx]),
+      })),
+  };
+};
+
+export const summarizeCoverage = (matrix: CoverageMatrix): CoverageSummary => {
+  const summary: CoverageSummary = {
+    withData: 0,
+    fitted: 0,
+    extrapolated: 0,
+    needsRaces: 0,
+  };
+  for (const cell of matrix.rows.flatMap((row) => row.cells)) {
+    if (hasCoverageData(cell)) summary.withData++;
+    if (cell.fit === "fitted") summary.fitted++;
+    if (cell.fit === "extrapolated") summary.extrapolated++;
+    if (cell.playerLaps > 0 && cell.fit !== "fitted") summary.needsRaces++;
+  }
+  return summary;
+};
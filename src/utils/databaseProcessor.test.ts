@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { CFG } from "../config";
+import { useConfigStore } from "../store/configStore";
+import type { Database, DatabaseTrack } from "../types";
+import { processDatabase } from "./databaseProcessor";
+
+// Settings persist to localStorage, which Node does not provide
+vi.hoisted(() =>
+  vi.stubGlobal("localStorage", {
+    getItem: () => null,
+    setItem: () => {},
+    removeItem: () => {},
+  }),
+);
+
+// Lap times 0.2% faster per AI level, sampled every 10 levels
+const sampledTrack = (timeAt100: number): DatabaseTrack => {
+  const levels = [80, 90, 100, 110, 120];
+  return {
+    minAI: 80,
+    maxAI: 120,
+    ailevels: Object.fromEntries(
+      levels.map((ai) => [ai, [timeAt100 * (1 - 0.002 * (ai - 100))]]),
+    ),
+    samplesCount: Object.fromEntries(levels.map((ai) => [ai, 1])),
+  };
+};
+
+describe("processDatabase pace transfer", () => {
+  beforeEach(() => {
+    useConfigStore.setState({ config: { ...CFG, paceTransfer: true } });
+  });
+
+  const database: Database = {
+    classes: {
+      "1": {
+        tracks: {
+          "10": sampledTrack(100),
+          "11": sampledTrack(60),
+          // A single sampled level is too few to fit
+          "12": {
+            minAI: 100,
+            maxAI: 100,
+            ailevels: { 100: [50] },
+            samplesCount: { 100: 1 },
+          },
+        },
+      },
+    },
+  };
+  const playerTimes = {
+    classes: {
+      "1": {
+        tracks: {
+          "10": { playertime: 100 },
+          "13": { playertime: 80 },
+        },
+      },
+    },
+  };
+
+  it("anchors a sparse track on its own samples", () => {
+    const track = processDatabase(database, playerTimes).classes["1"].tracks[
+      "12"
+    ];
+    expect(track.extrapolated).toBe(true);
+    expect(track.ailevels[90]).toEqual([51]);
+    expect(track.ailevels[110]).toEqual([49]);
+  });
+
+  it("anchors a track with only player times on the player's pace", () => {
+    const processed = processDatabase(database, playerTimes);
+    // The player matches AI 100 on track 10, so 80s is the AI 100 time here
+    expect(processed.classes["1"].tracks["13"].ailevels[110]).toEqual([78.4]);
+    expect(
+      processed.diagnostics?.find((d) => d.trackid === "13")?.extrapolated,
+    ).toBe(true);
+  });
+
+  it("leaves sparse tracks out when pace transfer is off", () => {
+    useConfigStore.setState({ config: { ...CFG, paceTransfer: false } });
+    const processed = processDatabase(database, playerTimes);
+    expect(Object.keys(processed.classes["1"].tracks)).toEqual(["10", "11"]);
+  });
+});
+
+describe("processDatabase auto fit model", () => {
+  beforeEach(() => {
+    useConfigStore.setState({ config: { ...CFG, fitModel: "auto" } });
+  });
+
+  it("does not pick the quadratic for noisy straight-line data", () => {
+    // The quadratic has the smaller residuals, but only by fitting the noise
+    const levels = [80, 85, 90, 95, 100, 105, 110];
+    const noise = [0.1, -0.1, 0.05, -0.08, 0, -0.05, 0.1];
+    const processed = processDatabase({
+      classes: {
+        "1": {
+          tracks: {
+            "10": {
+              minAI: 80,
+              maxAI: 110,
+              ailevels: Object.fromEntries(
+                levels.map((ai, i) => [ai, [120 - 0.2 * ai + noise[i]]]),
+              ),
+            },
+          },
+        },
+      },
+    });
+    expect(processed.diagnostics?.[0].model).toBe("linear");
+  });
+});
@@ -5,59 +5,49 @@
  * https://github.com/pixeljetstream/r3e-adaptive-ai-primer
  */
 
-import type { Database, ProcessedDatabase } from "../types";
-import { fitLinear, computeTime } from "./fitting";
+import type {
+  Database,
+  DatabaseTrack,
+  FitDiagnostics,
+  FitModel,
+  FitRejectionReason,
+  PlayerTimes,
+  ProcessedDatabase,
+} from "../types";
+import {
+  FIT_MODEL_LABELS,
+  computeTime,
+  evaluateFit,
+  fitWithModel,
+  median,
+  type FitResult,
+} from "./fitting";
+import { resolveAIRange, type AIRange } from "./aiLevels";
 import type { Config } from "../config";
 import { useConfigStore } from "../store/configStore";
 
+export interface TrackFit {
+  generator?: (t: number) => number; // Only set when a model passed validation
+  diagnostics: FitDiagnostics;
+}
+
+interface FitValidation {
+  tested: number;
+  passed: number;
+  rejection?: FitRejectionReason;
+}
+
 /**
- * Generates a linear fitting function for a track's AI lap times.
- * Uses existing sampled data (min/max AI levels) to create a linear regression model.
- * Returns a function that can predict lap times for any AI level between 80-120.
- * Returns undefined if the track doesn't have enough data or if validation fails.
+ * Checks a fitted generator against the sampled data: predicted times must
+ * decrease monotonically with AI level and stay within testMaxTimePct of the
+ * measured times for all but testMaxFailsPct of the tested points.
  */
-const trackGenerator = (
-  _classid: string,
-  _trackid: string,
-  track: any,
+const validateFit = (
+  track: DatabaseTrack & { minAI: number; maxAI: number },
+  generator: (t: number) => number,
   config: Config,
-): ((t: number) => number) | undefined => {
-  // Validate: need at least testMinAIdiffs difference between min and max AI levels
-  if (!track.maxAI || track.maxAI - track.minAI < config.testMinAIdiffs)
-    return undefined;
-
-  // Prepare data for linear regression: x = AI levels, y = lap times
-  const x: number[] = [];
-  const y: number[] = [];
-
-  // Collect data points: either all individual lap times or averaged times per AI level
-  if (config.fitAll) {
-    // Use all individual lap times for fitting
-    for (let i = track.minAI; i <= track.maxAI; i++) {
-      const times = track.ailevels[i] || [];
-      for (const time of times) {
-        x.push(i);
-        y.push(time);
-      }
-    }
-  } else {
-    // Use averaged lap time per AI level
-    for (let i = track.minAI; i <= track.maxAI; i++) {
-      const { num, avg: time } = computeTime(track.ailevels[i] || []);
-      if (num > 0) {
-        x.push(i);
-        y.push(time);
-      }
-    }
-  }
-
-  // Linear regression: fit y = a + b*x where y is lap time and x is AI level
-  // (quadratic term c is reserved for future enhancement)
-  const { a, b } = fitLinear(x, y);
-  const c = 0;
-
-  const generator = (t: number) => a + b * t + (c || 0) * (t * t);
-
+  range: AIRange,
+): FitValidation => {
   // Validate fit quality: check that predicted times deviate by less than testMaxTimePct from actual data
   const { avg: minTime } = computeTime(track.ailevels[track.minAI] || []);
   const threshold = minTime * config.testMaxTimePct;
@@ -79,7 +69,7 @@ const trackGenerator = (
       }
       if (base > (lasttime || base)) {
         // Lap times must decrease monotonically with increasing AI skill level
-        return undefined;
+        return { tested, passed, rejection: "nonMonotonic" };
       }
       lasttime = base;
     }
@@ -97,57 +87,415 @@ const trackGenerator = (
       }
       if (base > (lasttime || base)) {
         // Lap times must decrease monotonically with increasing AI skill level
-        return undefined;
+        return { tested, passed, rejection: "nonMonotonic" };
       }
       lasttime = base;
     }
   }
 
+  // Curved fits can turn back up outside the sampled range, so the predicted range must be monotonic too
+  for (let i = range.minAI + 1; i <= range.maxAI; i++) {
+    if (generator(i) > generator(i - 1)) {
+      return { tested, passed, rejection: "nonMonotonic" };
+    }
+  }
+
   // Accept the fit only if at most testMaxFailsPct of tested points deviate beyond threshold
   const accepted =
     tested - passed <= Math.max(1, tested * config.testMaxFailsPct);
-  return accepted ? generator : undefined;
+  return {
+    tested,
+    passed,
+    rejection: accepted ? undefined : "tooManyFailures",
+  };
+};
+
+/**
+ * Goodness of fit over the fitted points, weighted when weights are given.
+ */
+const fitStatistics = (
+  x: number[],
+  y: number[],
+  generator: (t: number) => number,
+  weights?: number[],
+) => {
+  const w = weights ?? x.map(() => 1);
+  const totalWeight = w.reduce((sum, wi) => sum + wi, 0);
+  const mean = y.reduce((sum, yi, i) => sum + w[i] * yi, 0) / totalWeight;
+
+  let ssRes = 0;
+  let ssTot = 0;
+  let absRes = 0;
+  for (let i = 0; i < x.length; i++) {
+    const residual = y[i] - generator(x[i]);
+    ssRes += w[i] * residual ** 2;
+    ssTot += w[i] * (y[i] - mean) ** 2;
+    absRes += w[i] * Math.abs(residual);
+  }
+
+  const rmse = Math.sqrt(ssRes / totalWeight);
+  return {
+    rSquared: ssTot > 0 ? 1 - ssRes / ssTot : 1,
+    rmse,
+    meanResidual: absRes / totalWeight,
+    band: 1.96 * rmse,
+  };
+};
+
+// Coefficients each model estimates from the data
+const MODEL_PARAMETERS: Record<FitModel, number> = {
+  linear: 2,
+  quadratic: 3,
+  huber: 2,
+  theilSen: 2,
+};
+
+/**
+ * Small-sample Akaike information criterion (AICc): the fit error plus a
+ * penalty per estimated coefficient, so the quadratic's extra coefficient has
+ * to pay for itself instead of winning "auto" by fitting noise. Lower is
+ * better; infinite when there are too few points to judge the model.
+ */
+const fitCriterion = (
+  rmse: number,
+  points: number,
+  model: FitModel,
+): number => {
+  const k = MODEL_PARAMETERS[model];
+  const dof = points - k - 1;
+  if (dof <= 0) return Infinity;
+  // Floor the error so exact fits compare on their penalty alone
+  const meanSquare = Math.max(rmse * rmse, 1e-12);
+  return points * Math.log(meanSquare) + 2 * k + (2 * k * (k + 1)) / dof;
+};
+
+/**
+ * Generates a fitting function for a track's AI lap times.
+ * Uses existing sampled data (min/max AI levels) to fit the configured model, or
+ * every model when fitModel is "auto", keeping the validated fit with the
+ * lowest AICc (fit error penalised per coefficient).
+ * Returns a function that can predict lap times across the class/track's AI range,
+ * or no generator if the track doesn't have enough data or if validation fails.
+ * Diagnostics are returned either way.
+ */
+const trackGenerator = (
+  classid: string,
+  trackid: string,
+  track: any,
+  config: Config,
+): TrackFit => {
+  const sampledLevels = Object.values(
+    (track.ailevels || {}) as Record<number, number[]>,
+  ).filter((times) => times.length > 0).length;
+  const base = { classid, trackid, sampledLevels, tested: 0, passed: 0 };
+
+  // Validate: need at least testMinAIdiffs difference between min and max AI levels
+  if (!track.maxAI || track.maxAI - track.minAI < config.testMinAIdiffs) {
+    return {
+      diagnostics: {
+        ...base,
+        accepted: false,
+        rejection: "tooFewLevels",
+        points: 0,
+      },
+    };
+  }
+
+  // Prepare data for linear regression: x = AI levels, y = lap times
+  const x: number[] = [];
+  const y: number[] = [];
+  const w: number[] = [];
+
+  // Collect data points: either all individual lap times or averaged times per AI level
+  if (config.fitAll) {
+    // Use all individual lap times for fitting
+    for (let i = track.minAI; i <= track.maxAI; i++) {
+      const times = track.ailevels[i] || [];
+      for (const time of times) {
+        x.push(i);
+        y.push(time);
+      }
+    }
+  } else {
+    // Use averaged lap time per AI level
+    for (let i = track.minAI; i <= track.maxAI; i++) {
+      const { num, avg: time } = computeTime(track.ailevels[i] || []);
+      if (num > 0) {
+        x.push(i);
+        y.push(time);
+        // Generated levels are stored with 0 samples; count them as one race
+        w.push(Math.max(1, track.samplesCount?.[i] ?? num));
+      }
+    }
+  }
+
+  // Weights only apply to averaged points, where numberOfSampledRaces describes each point
+  const weights = config.weightBySamples && !config.fitAll ? w : undefined;
+
+  const models =
+    config.fitModel === "auto"
+      ? (Object.keys(FIT_MODEL_LABELS) as FitModel[])
+      : [config.fitModel];
+
+  // Best accepted fit, or the best rejected candidate when none passes
+  let best: TrackFit | undefined;
+  let bestCriterion = Infinity;
+  for (const model of models) {
+    let fit: FitResult;
+    try {
+      // Fit y = a + b*x (+ c*x^2) where y is lap time and x is AI level
+      fit = fitWithModel(model, x, y, weights);
+    } catch {
+      // Not enough distinct points for this model (e.g. quadratic needs 3)
+      continue;
+    }
+    const generator = (t: number) => evaluateFit(fit, t);
+    const validation = validateFit(
+      track,
+      generator,
+      config,
+      resolveAIRange(config, classid, trackid),
+    );
+    const diagnostics: FitDiagnostics = {
+      ...base,
+      ...validation,
+      ...fitStatistics(x, y, generator, weights),
+      accepted: !validation.rejection,
+      model,
+      coefficients: fit,
+      points: x.length,
+    };
+
+    const criterion = fitCriterion(diagnostics.rmse!, x.length, model);
+    const isBetter =
+      !best ||
+      (diagnostics.accepted && !best.diagnostics.accepted) ||
+      (diagnostics.accepted === best.diagnostics.accepted &&
+        criterion < bestCriterion);
+    if (isBetter) {
+      best = {
+        generator: diagnostics.accepted ? generator : undefined,
+        diagnostics,
+      };
+      bestCriterion = criterion;
+    }
+  }
+
+  return (
+    best ?? {
+      diagnostics: {
+        ...base,
+        accepted: false,
+        rejection: "fitError",
+        points: x.length,
+      },
+    }
+  );
+};
+
+interface ClassPace {
+  relativeSlope: number; // Fractional lap time change per AI level at referenceAI
+  referenceAI: number;
+  playerAI?: number; // AI level whose predicted time matches the player's best lap
+}
+
+/**
+ * Derives a class-wide pace model from the accepted fits on its other tracks.
+ * Lap times differ between tracks, so the slope is taken relative to the lap
+ * time; the player's pace is expressed as the AI level it matches.
+ */
+const buildClassPace = (
+  fits: Array<{ generator: (t: number) => number; playerTime?: number }>,
+  range: AIRange,
+): ClassPace | undefined => {
+  if (fits.length === 0) return undefined;
+  const referenceAI = Math.round((range.minAI + range.maxAI) / 2);
+
+  const relativeSlope = median(
+    fits.map(
+      ({ generator }) =>
+        (generator(referenceAI + 1) - generator(referenceAI - 1)) /
+        2 /
+        generator(referenceAI),
+    ),
+  );
+
+  // AI level closest to the player's best lap on each track with player data
+  const playerLevels: number[] = [];
+  for (const { generator, playerTime } of fits) {
+    if (!playerTime) continue;
+    let bestAI = range.minAI;
+    for (let i = range.minAI; i <= range.maxAI; i++) {
+      if (
+        Math.abs(generator(i) - playerTime) <
+        Math.abs(generator(bestAI) - playerTime)
+      ) {
+        bestAI = i;
+      }
+    }
+    playerLevels.push(bestAI);
+  }
+
+  return {
+    relativeSlope,
+    referenceAI,
+    playerAI: playerLevels.length ? median(playerLevels) : undefined,
+  };
+};
+
+/**
+ * Predicts lap times for a sparse class/track from the class pace model,
+ * anchored on its few AI samples or, failing that, on the player's best lap.
+ */
+const transferGenerator = (
+  track: DatabaseTrack | undefined,
+  playerTime: number | undefined,
+  pace: ClassPace,
+): ((t: number) => number) | undefined => {
+  const { relativeSlope, referenceAI, playerAI } = pace;
+  const shape = (t: number) => 1 + relativeSlope * (t - referenceAI);
+
+  // Lap time at referenceAI implied by each sampled level, weighted by sampled races
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const [ai, times] of Object.entries(track?.ailevels ?? {})) {
+    const { num, avg } = computeTime(times);
+    if (num === 0) continue;
+    const weight = Math.max(1, track?.samplesCount?.[Number(ai)] ?? num);
+    weighted += (weight * avg) / shape(Number(ai));
+    totalWeight += weight;
+  }
+
+  let referenceTime: number | undefined;
+  if (totalWeight > 0) {
+    referenceTime = weighted / totalWeight;
+  } else if (playerTime && playerAI !== undefined) {
+    referenceTime = playerTime / shape(playerAI);
+  }
+
+  return referenceTime === undefined
+    ? undefined
+    : (t: number) => referenceTime * shape(t);
 };
 
 /**
  * Process the database to generate AI level predictions for all tracks/classes.
- * For each track with sufficient data points, a linear fit is computed and used
- * to generate predicted lap times for AI levels 80-120 in 1-point increments.
+ * For each track with sufficient data points, a fit is computed and used to
+ * generate predicted lap times in 1-point increments over each class/track's
+ * AI range (the global minAI-maxAI unless overridden in aiRangeOverrides).
+ * When paceTransfer is enabled, class/track pairs with too few sampled levels
+ * (or only player times) are extrapolated from the class's fits on other tracks.
  */
-export const processDatabase = (database: Database): ProcessedDatabase => {
+export const processDatabase = (
+  database: Database,
+  playerTimes: PlayerTimes = { classes: {} },
+): ProcessedDatabase => {
   const config = useConfigStore.getState().config;
-  const filtered: ProcessedDatabase = { classes: {} };
+  const report: FitDiagnostics[] = [];
+  const filtered: ProcessedDatabase = { classes: {}, diagnostics: report };
+
+  const storeTrack = (
+    classid: string,
+    trackid: string,
+    generator: (t: number) => number,
+    details: Partial<DatabaseTrack>,
+  ) => {
+    // Store generated predictions: ensure class exists and widen its min/max AI range
+    const classf = filtered.classes[classid] || { tracks: {} };
+    filtered.classes[classid] = classf;
+
+    const range = resolveAIRange(config, classid, trackid);
+    classf.minAI = Math.min(classf.minAI ?? range.minAI, range.minAI);
+    classf.maxAI = Math.max(classf.maxAI ?? range.maxAI, range.maxAI);
+
+    // Generate predicted lap times for the configured AI range
+    const ailevels: Record<number, number[]> = {};
+    for (let i = range.minAI; i <= range.maxAI; i++) {
+      // Round predictions to 2 decimal places for consistency
+      ailevels[i] = [Number.parseFloat(generator(i).toFixed(2))];
+    }
+
+    classf.tracks[trackid] = {
+      minAI: range.minAI,
+      maxAI: range.maxAI,
+      ailevels,
+      samplesCount: {},
+      ...details,
+    };
+  };
+
+  // Accepted fits per class, used to extrapolate sparse tracks of the same class
+  const classFits: Record<
+    string,
+    Array<{ generator: (t: number) => number; playerTime?: number }>
+  > = {};
 
   // Iterate through all classes and tracks to build prediction generators
   for (const [classid, classData] of Object.entries(database.classes)) {
     for (const [trackid, track] of Object.entries(classData.tracks)) {
       // Generate fitting function if track has sufficient data
-      const gen = trackGenerator(classid, trackid, track, config);
-      if (gen) {
-        // Store generated predictions: ensure class exists and set min/max AI range
-        const classf = filtered.classes[classid] || { tracks: {} };
-        filtered.classes[classid] = classf;
-
-        classf.minAI = config.minAI;
-        classf.maxAI = config.maxAI;
-
-        // Generate predicted lap times for configured AI range
-        const ailevels: Record<number, number[]> = {};
-        for (let i = config.minAI; i <= config.maxAI; i++) {
-          // Round predictions to 2 decimal places for consistency
-          ailevels[i] = [Number.parseFloat(gen(i).toFixed(2))];
-        }
+      const { generator, diagnostics } = trackGenerator(
+        classid,
+        trackid,
+        track,
+        config,
+      );
+      report.push(diagnostics);
+      if (generator) {
+        storeTrack(classid, trackid, generator, {
+          fitModel: diagnostics.model,
+          fitResidual: diagnostics.meanResidual,
+        });
+        classFits[classid] = classFits[classid] || [];
+        classFits[classid].push({
+          generator,
+          playerTime: playerTimes.classes[classid]?.tracks[trackid]?.playertime,
+        });
+      }
+    }
+  }
+
+  if (!config.paceTransfer) return filtered;
 
-        const trackf = {
-          minAI: config.minAI,
-          maxAI: config.maxAI,
-          ailevels,
-          samplesCount: {},
+  // Sparse pairs: too few sampled levels, or player times without any AI data
+  const sparse = report.filter((d) => d.rejection === "tooFewLevels");
+  for (const [classid, classData] of Object.entries(playerTimes.classes)) {
+    for (const trackid of Object.keys(classData.tracks)) {
+      if (!database.classes[classid]?.tracks[trackid]) {
+        const diagnostics: FitDiagnostics = {
+          classid,
+          trackid,
+          accepted: false,
+          rejection: "tooFewLevels",
+          sampledLevels: 0,
+          points: 0,
+          tested: 0,
+          passed: 0,
         };
-        classf.tracks[trackid] = trackf;
+        report.push(diagnostics);
+        sparse.push(diagnostics);
       }
     }
   }
 
+  for (const diagnostics of sparse) {
+    const { classid, trackid } = diagnostics;
+    const pace = buildClassPace(
+      classFits[classid] ?? [],
+      resolveAIRange(config, classid),
+    );
+    if (!pace) continue;
+
+    const generator = transferGenerator(
+      database.classes[classid]?.tracks[trackid],
+      playerTimes.classes[classid]?.tracks[trackid]?.playertime,
+      pace,
+    );
+    if (generator) {
+      diagnostics.extrapolated = true;
+      storeTrack(classid, trackid, generator, { extrapolated: true });
+    }
+  }
+
   return filtered;
 };
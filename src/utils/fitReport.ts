@@ -0,0 +1,113 @@
+/**
+ * Fit diagnostics report: labels and CSV/JSON export of the per class/track
+ * fitting outcome produced by processDatabase.
+ */
+
+import type { Assets, FitDiagnostics, FitRejectionReason } from "../types";
+import { FIT_MODEL_LABELS } from "./fitting";
+
+export const FIT_REJECTION_LABELS: Record<FitRejectionReason, string> = {
+  tooFewLevels: "Too few AI levels",
+  fitError: "Fit failed",
+  nonMonotonic: "Non-monotonic",
+  tooManyFailures: "Too many failures",
+};
+
+export interface FitReportRow extends FitDiagnostics {
+  className: string;
+  trackName: string;
+}
+
+/**
+ * Attaches class/track names and sorts by class, then track.
+ */
+export const buildFitReport = (
+  diagnostics: FitDiagnostics[],
+  assets: Assets | null,
+): FitReportRow[] =>
+  diagnostics
+    .map((entry) => ({
+      ...entry,
+      className: assets?.classes?.[entry.classid]?.name || entry.classid,
+      trackName: assets?.tracks?.[entry.trackid]?.name || entry.trackid,
+    }))
+    .sort(
+      (a, b) =>
+        a.className.localeCompare(b.className) ||
+        a.trackName.localeCompare(b.trackName),
+    );
+
+const csvCell = (value: string | number | undefined): string => {
+  if (value === undefined) return "";
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+};
+
+export const fitReportToCSV = (rows: FitReportRow[]): string => {
+  const header = [
+    "classId",
+    "class",
+    "trackId",
+    "track",
+    "status",
+    "rejection",
+    "extrapolated",
+    "model",
+    "a",
+    "b",
+    "c",
+    "rSquared",
+    "rmse",
+    "meanResidual",
+    "band95",
+    "passed",
+    "tested",
+    "sampledLevels",
+    "points",
+  ];
+  const lines = rows.map((row) =>
+    [
+      row.classid,
+      row.className,
+      row.trackid,
+      row.trackName,
+      row.accepted ? "accepted" : "rejected",
+      row.rejection && FIT_REJECTION_LABELS[row.rejection],
+      row.extrapolated ? "yes" : "no",
+      row.model && FIT_MODEL_LABELS[row.model],
+      row.coefficients?.a,
+      row.coefficients?.b,
+      row.coefficients?.c,
+      row.rSquared,
+      row.rmse,
+      row.meanResidual,
+      row.band,
+      row.passed,
+      row.tested,
+      row.sampledLevels,
+      row.points,
+    ]
+      .map(csvCell)
+      .join(","),
+  );
+  return [header.join(","), ...lines].join("\n");
+};
+
+export const fitReportToJSON = (rows: FitReportRow[]): string =>
+  JSON.stringify(rows, null, 2);
+
+export const downloadFitReport = (
+  content: string,
+  filename: string,
+  type: "text/csv" | "application/json",
+): void => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import {
+  evaluateFit,
+  fitHuber,
+  fitLinear,
+  fitParabola,
+  fitTheilSen,
+  fitWeighted,
+  median,
+} from "./fitting";
+
+const ai = [80, 85, 90, 95, 100, 105, 110];
+const line = (x: number) => 120 - 0.2 * x;
+// One corrupted AI level far off the line
+const noisy = ai.map((x, i) => (i === 3 ? line(x) + 5 : line(x)));
+
+describe("median", () => {
+  it("handles odd and even lengths without reordering the input", () => {
+    const values = [3, 1, 2, 10];
+    expect(median(values)).toBe(2.5);
+    expect(median([5, 1, 3])).toBe(3);
+    expect(values).toEqual([3, 1, 2, 10]);
+  });
+});
+
+describe("fitLinear", () => {
+  it("recovers an exact line", () => {
+    const fit = fitLinear(ai, ai.map(line));
+    expect(fit.a).toBeCloseTo(120, 6);
+    expect(fit.b).toBeCloseTo(-0.2, 6);
+  });
+
+  it("rejects too few points", () => {
+    expect(() => fitLinear([90], [100])).toThrow();
+  });
+});
+
+describe("fitParabola", () => {
+  it("recovers an exact quadratic", () => {
+    const curve = (x: number) => 150 - 0.5 * x + 0.001 * x * x;
+    const fit = fitParabola(ai, ai.map(curve));
+    expect(evaluateFit(fit, 92)).toBeCloseTo(curve(92), 6);
+    expect(fit.c).toBeCloseTo(0.001, 6);
+  });
+});
+
+describe("robust fits", () => {
+  it("Theil-Sen ignores a single outlier", () => {
+    const fit = fitTheilSen(ai, noisy);
+    expect(fit.b).toBeCloseTo(-0.2, 6);
+    expect(evaluateFit(fit, 100)).toBeCloseTo(line(100), 6);
+  });
+
+  it("Huber stays closer to the line than least squares", () => {
+    const robust = Math.abs(evaluateFit(fitHuber(ai, noisy), 100) - line(100));
+    const plain = Math.abs(evaluateFit(fitLinear(ai, noisy), 100) - line(100));
+    expect(robust).toBeLessThan(plain);
+  });
+});
+
+describe("fitWeighted", () => {
+  it("matches least squares when every weight is equal", () => {
+    const weighted = fitWeighted(
+      ai,
+      noisy,
+      ai.map(() => 2),
+    );
+    const plain = fitLinear(ai, noisy);
+    expect(weighted.a).toBeCloseTo(plain.a, 6);
+    expect(weighted.b).toBeCloseTo(plain.b, 6);
+  });
+
+  it("follows the heavily sampled levels", () => {
+    // The corrupted level was sampled in one race, the others in twenty
+    const weights = ai.map((_, i) => (i === 3 ? 1 : 20));
+    const weighted = evaluateFit(fitWeighted(ai, noisy, weights), 100);
+    const plain = evaluateFit(fitLinear(ai, noisy), 100);
+    expect(Math.abs(weighted - line(100))).toBeLessThan(
+      Math.abs(plain - line(100)) / 5,
+    );
+  });
+
+  it("fits a quadratic with degree 2", () => {
+    const curve = (x: number) => 150 - 0.5 * x + 0.001 * x * x;
+    const fit = fitWeighted(ai, ai.map(curve), [1, 3, 1, 3, 1, 3, 1], 2);
+    expect(fit.c).toBeCloseTo(0.001, 6);
+  });
+});
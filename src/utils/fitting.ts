@@ -6,6 +6,7 @@
  */
 
 import { create, all } from "mathjs";
+import type { FitModel } from "../types";
 
 // MathJS instance for linear algebra operations (matrix multiply, solve, transpose)
 const math = create(all);
@@ -13,9 +14,16 @@ const math = create(all);
 export interface FitResult {
   a: number; // Intercept (constant term)
   b: number; // Slope (linear coefficient)
-  c?: number; // Quadratic coefficient (reserved for future parabolic fit)
+  c?: number; // Quadratic coefficient (quadratic fit only)
 }
 
+export const FIT_MODEL_LABELS: Record<FitModel, string> = {
+  linear: "Linear",
+  quadratic: "Quadratic",
+  huber: "Robust (Huber)",
+  theilSen: "Robust (Theil-Sen)",
+};
+
 /**
  * Linear least-squares regression: y = a + b*x
  * Uses normal equations: (A^T * A)^(-1) * A^T * Y
@@ -72,6 +80,171 @@ export const fitParabola = (
   return { a: X[0][0], b: X[1][0], c: X[2][0] };
 };
 
+export const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Smallest value at which the cumulative weight reaches half of the total
+const weightedMedian = (values: number[], weights: number[]): number => {
+  const order = values.map((_, i) => i).sort((i, j) => values[i] - values[j]);
+  const half = weights.reduce((sum, w) => sum + w, 0) / 2;
+  let cumulative = 0;
+  for (const i of order) {
+    cumulative += weights[i];
+    if (cumulative >= half) return values[i];
+  }
+  return values[order[order.length - 1]];
+};
+
+/**
+ * Weighted least squares: minimises sum(w_i * (y_i - a - b*x_i - c*x_i^2)^2).
+ * Uses weighted normal equations: (A^T * W * A)^(-1) * A^T * W * Y
+ * Degree 2 adds the quadratic term.
+ */
+export const fitWeighted = (
+  xValues: number[],
+  yValues: number[],
+  weights: number[],
+  degree: 1 | 2 = 1,
+): FitResult => {
+  if (
+    xValues.length !== yValues.length ||
+    xValues.length !== weights.length ||
+    xValues.length < degree + 1
+  ) {
+    throw new Error(
+      `Invalid input: x, y and weights must have same length and at least ${degree + 1} points`,
+    );
+  }
+
+  const A = xValues.map((x) => (degree === 2 ? [1, x, x * x] : [1, x]));
+  const AT = math.transpose(A);
+
+  // W * A and W * Y, with W the diagonal weight matrix
+  const WA = A.map((row, i) => row.map((v) => v * weights[i]));
+  const WY = yValues.map((y, i) => [y * weights[i]]);
+
+  const X = math.lusolve(
+    math.multiply(AT, WA),
+    math.multiply(AT, WY),
+  ) as number[][];
+
+  return degree === 2
+    ? { a: X[0][0], b: X[1][0], c: X[2][0] }
+    : { a: X[0][0], b: X[1][0] };
+};
+
+/**
+ * Robust linear regression with the Huber loss, solved by iteratively
+ * reweighted least squares. Residuals beyond 1.345 robust standard deviations
+ * are down-weighted, so a few outlier samples cannot drag the line.
+ * Optional weights are multiplied into the robust weights.
+ */
+export const fitHuber = (
+  xValues: number[],
+  yValues: number[],
+  weights?: number[],
+  maxIterations = 20,
+): FitResult => {
+  const baseWeights = weights ?? xValues.map(() => 1);
+  let fit = fitWeighted(xValues, yValues, baseWeights);
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const residuals = xValues.map((x, i) => yValues[i] - evaluateFit(fit, x));
+    // Median absolute deviation scaled to match the standard deviation
+    const scale = 1.4826 * median(residuals.map(Math.abs));
+    if (scale === 0) break;
+
+    const k = 1.345 * scale;
+    const robustWeights = residuals.map(
+      (r, i) => baseWeights[i] * (Math.abs(r) <= k ? 1 : k / Math.abs(r)),
+    );
+    const next = fitWeighted(xValues, yValues, robustWeights);
+    const converged =
+      Math.abs(next.a - fit.a) < 1e-9 && Math.abs(next.b - fit.b) < 1e-9;
+    fit = next;
+    if (converged) break;
+  }
+
+  return fit;
+};
+
+/**
+ * Theil-Sen estimator: the slope is the median of the slopes between every
+ * pair of points, the intercept the median of the remaining offsets.
+ * Tolerates up to ~29% outliers. With weights, each pair slope counts
+ * w_i * w_j and the medians become weighted medians.
+ */
+export const fitTheilSen = (
+  xValues: number[],
+  yValues: number[],
+  weights?: number[],
+): FitResult => {
+  if (xValues.length !== yValues.length || xValues.length < 2) {
+    throw new Error(
+      "Invalid input: x and y must have same length and at least 2 points",
+    );
+  }
+
+  const w = weights ?? xValues.map(() => 1);
+  const slopes: number[] = [];
+  const slopeWeights: number[] = [];
+  for (let i = 0; i < xValues.length; i++) {
+    for (let j = i + 1; j < xValues.length; j++) {
+      if (xValues[i] !== xValues[j]) {
+        slopes.push((yValues[j] - yValues[i]) / (xValues[j] - xValues[i]));
+        slopeWeights.push(w[i] * w[j]);
+      }
+    }
+  }
+  if (slopes.length === 0) {
+    throw new Error("Invalid input: at least 2 distinct x values required");
+  }
+
+  if (!weights) {
+    const b = median(slopes);
+    const a = median(xValues.map((x, i) => yValues[i] - b * x));
+    return { a, b };
+  }
+
+  const b = weightedMedian(slopes, slopeWeights);
+  const a = weightedMedian(
+    xValues.map((x, i) => yValues[i] - b * x),
+    w,
+  );
+  return { a, b };
+};
+
+/**
+ * Fits the given model, weighting each point when weights are provided.
+ */
+export const fitWithModel = (
+  model: FitModel,
+  xValues: number[],
+  yValues: number[],
+  weights?: number[],
+): FitResult => {
+  switch (model) {
+    case "linear":
+      return weights
+        ? fitWeighted(xValues, yValues, weights)
+        : fitLinear(xValues, yValues);
+    case "quadratic":
+      return weights
+        ? fitWeighted(xValues, yValues, weights, 2)
+        : fitParabola(xValues, yValues);
+    case "huber":
+      return fitHuber(xValues, yValues, weights);
+    case "theilSen":
+      return fitTheilSen(xValues, yValues, weights);
+  }
+};
+
+export const evaluateFit = ({ a, b, c }: FitResult, x: number): number =>
+  a + b * x + (c ?? 0) * x * x;
+
 export const computeTime = (
   times: number[],
 ): {
@@ -6,316 +6,39 @@
  */
 
 import type { ChampionshipEntry } from "../types";
-import type { ParsedRace, RaceSlot } from "../types/raceResults";
-
-interface DriverStanding {
-  position: number;
-  driver: string;
-  vehicle: string;
-  vehicleId?: number;
-  isHuman: boolean;
-  team: string;
-  points: number;
-  raceResults: (number | null)[];
-  racePoints: (number | null)[];
-}
-
-interface TeamStanding {
-  position: number;
-  team: string;
-  entries: number;
-  points: number;
-  racePoints: (number | null)[];
-}
-
-interface VehicleStanding {
-  position: number;
-  vehicle: string;
-  vehicleId?: number;
-  entries: number;
-  points: number;
-  racePoints: (number | null)[];
-}
-
-interface BestTime {
-  driver: string;
-  vehicle: string;
-  vehicleId?: number;
-  isHuman: boolean;
-  time: string;
-  timeMs: number;
-}
-
-const DEFAULT_POINTS_SYSTEM = [25, 18, 15, 12, 10, 8, 6, 4, 2, 1];
-
-const parseTime = (timeStr: string | undefined): number => {
-  if (!timeStr) return Infinity;
-  const parts = timeStr.split(":");
-  if (parts.length === 3) {
-    const [h, m, s] = parts.map(Number);
-    return h * 3600 + m * 60 + s;
-  } else if (parts.length === 2) {
-    const [m, s] = parts.map(Number);
-    return m * 60 + s;
-  }
-  return Infinity;
-};
-
-const formatTimeDiff = (baseMs: number, currentMs: number): string => {
-  const diff = currentMs - baseMs;
-  if (diff === 0) return "";
-  const sign = diff > 0 ? "+ " : "- ";
-  const absDiff = Math.abs(diff) / 1000;
-  return `${sign}${absDiff.toFixed(3)}`;
-};
-
-const getRacePosition = (slots: RaceSlot[], driver: string): number | null => {
-  const sortedSlots = [...slots].sort((a, b) => {
-    const aFinished = a.FinishStatus === "Finished" || !!a.TotalTime;
-    const bFinished = b.FinishStatus === "Finished" || !!b.TotalTime;
-    if (aFinished !== bFinished) return bFinished ? 1 : -1;
-
-    const aTime = parseTime(a.TotalTime);
-    const bTime = parseTime(b.TotalTime);
-    return aTime - bTime;
-  });
-
-  const index = sortedSlots.findIndex((s) => s.Driver === driver);
-  return index >= 0 && sortedSlots[index].TotalTime ? index + 1 : null;
-};
-
-const calculateDriverStandings = (races: ParsedRace[]): DriverStanding[] => {
-  const driverMap = new Map<
-    string,
-    {
-      vehicle: string;
-      vehicleId?: number;
-      isHuman: boolean;
-      team: string;
-      raceResults: (number | null)[];
-      racePoints: (number | null)[];
-    }
-  >();
-
-  for (const race of races) {
-    for (const slot of race.slots) {
-      if (driverMap.has(slot.Driver)) {
-        const entry = driverMap.get(slot.Driver)!;
-        if (
-          !entry.isHuman &&
-          typeof slot.UserId === "number" &&
-          slot.UserId > 0
-        ) {
-          entry.isHuman = true;
-        }
-      } else {
-        driverMap.set(slot.Driver, {
-          vehicle: slot.Vehicle,
-          vehicleId: slot.VehicleId,
-          isHuman: !!(typeof slot.UserId === "number" && slot.UserId > 0),
-          team: slot.Team,
-          raceResults: [],
-          racePoints: [],
-        });
-      }
-    }
-  }
-
-  races.forEach((race, raceIdx) => {
-    driverMap.forEach((data, driver) => {
-      const position = getRacePosition(race.slots, driver);
-      data.raceResults[raceIdx] = position;
-
-      if (position !== null && position <= DEFAULT_POINTS_SYSTEM.length) {
-        data.racePoints[raceIdx] = DEFAULT_POINTS_SYSTEM[position - 1];
-      } else {
-        data.racePoints[raceIdx] = null;
-      }
-    });
-  });
-
-  const standings: DriverStanding[] = [];
-  driverMap.forEach((data, driver) => {
-    const points = data.racePoints.reduce<number>(
-      (sum, p) => sum + (p || 0),
-      0,
-    );
-    standings.push({
-      position: 0,
-      driver,
-      vehicle: data.vehicle,
-      vehicleId: data.vehicleId,
-      team: data.team,
-      points,
-      raceResults: data.raceResults,
-      racePoints: data.racePoints,
-      isHuman: data.isHuman,
-    });
-  });
-
-  standings.sort((a, b) => b.points - a.points);
-  standings.forEach((s, i) => (s.position = i + 1));
-
-  return standings;
-};
-
-const calculateTeamStandings = (races: ParsedRace[]): TeamStanding[] => {
-  const teamMap = new Map<
-    string,
-    { entries: Set<string>; racePoints: (number | null)[] }
-  >();
-
-  races.forEach((race, raceIdx) => {
-    race.slots.forEach((slot) => {
-      if (!teamMap.has(slot.Team)) {
-        teamMap.set(slot.Team, {
-          entries: new Set(),
-          racePoints: new Array(races.length).fill(null),
-        });
-      }
-      teamMap.get(slot.Team)!.entries.add(slot.Driver);
-    });
-
-    const sortedSlots = [...race.slots].sort((a, b) => {
-      const aTime = parseTime(a.TotalTime);
-      const bTime = parseTime(b.TotalTime);
-      return aTime - bTime;
-    });
-
-    const teamRacePoints = new Map<string, number>();
-    sortedSlots.forEach((slot, idx) => {
-      if (idx < DEFAULT_POINTS_SYSTEM.length && slot.TotalTime) {
-        const pts = teamRacePoints.get(slot.Team) || 0;
-        teamRacePoints.set(slot.Team, pts + DEFAULT_POINTS_SYSTEM[idx]);
-      }
-    });
-
-    teamRacePoints.forEach((pts, team) => {
-      teamMap.get(team)!.racePoints[raceIdx] = pts;
-    });
-  });
-
-  const standings: TeamStanding[] = [];
-  teamMap.forEach((data, team) => {
-    const points = data.racePoints.reduce<number>(
-      (sum, p) => sum + (p || 0),
-      0,
-    );
-    standings.push({
-      position: 0,
-      team,
-      entries: data.entries.size,
-      points,
-      racePoints: data.racePoints,
-    });
-  });
-
-  standings.sort((a, b) => b.points - a.points);
-  standings.forEach((s, i) => (s.position = i + 1));
-
-  return standings;
-};
-
-const calculateVehicleStandings = (races: ParsedRace[]): VehicleStanding[] => {
-  const vehicleMap = new Map<
-    string,
-    { vehicleId?: number; entries: Set<string>; racePoints: (number | null)[] }
-  >();
-
-  races.forEach((race, raceIdx) => {
-    race.slots.forEach((slot) => {
-      if (!vehicleMap.has(slot.Vehicle)) {
-        vehicleMap.set(slot.Vehicle, {
-          vehicleId: slot.VehicleId,
-          entries: new Set(),
-          racePoints: new Array(races.length).fill(null),
-        });
-      }
-      vehicleMap.get(slot.Vehicle)!.entries.add(slot.Driver);
-    });
-
-    const sortedSlots = [...race.slots].sort((a, b) => {
-      const aTime = parseTime(a.TotalTime);
-      const bTime = parseTime(b.TotalTime);
-      return aTime - bTime;
-    });
-
-    const vehicleRacePoints = new Map<string, number>();
-    sortedSlots.forEach((slot, idx) => {
-      if (idx < DEFAULT_POINTS_SYSTEM.length && slot.TotalTime) {
-        const pts = vehicleRacePoints.get(slot.Vehicle) || 0;
-        vehicleRacePoints.set(slot.Vehicle, pts + DEFAULT_POINTS_SYSTEM[idx]);
-      }
-    });
-
-    vehicleRacePoints.forEach((pts, vehicle) => {
-      vehicleMap.get(vehicle)!.racePoints[raceIdx] = pts;
-    });
-  });
-
-  const standings: VehicleStanding[] = [];
-  vehicleMap.forEach((data, vehicle) => {
-    const points = data.racePoints.reduce<number>(
-      (sum, p) => sum + (p || 0),
-      0,
-    );
-    standings.push({
-      position: 0,
-      vehicle,
-      vehicleId: data.vehicleId,
-      entries: data.entries.size,
-      points,
-      racePoints: data.racePoints,
-    });
-  });
-
-  standings.sort((a, b) => b.points - a.points);
-  standings.forEach((s, i) => (s.position = i + 1));
-
-  return standings;
-};
-
-const getBestLapTimes = (
-  races: ParsedRace[],
-  topN: number = 20,
-): BestTime[][] => {
-  return races.map((race) => {
-    const times: BestTime[] = race.slots
-      .filter((s) => s.BestLap)
-      .map((s) => ({
-        driver: s.Driver,
-        vehicle: s.Vehicle,
-        vehicleId: s.VehicleId,
-        isHuman: !!(typeof s.UserId === "number" && s.UserId > 0),
-        time: s.BestLap!,
-        timeMs: parseTime(s.BestLap) * 1000,
-      }))
-      .sort((a, b) => a.timeMs - b.timeMs);
-
-    return times.slice(0, topN);
-  });
-};
-
-const getBestQualifyingTimes = (
-  races: ParsedRace[],
-  topN: number = 20,
-): BestTime[][] => {
-  return races.map((race) => {
-    const times: BestTime[] = race.slots
-      .filter((s) => s.QualTime)
-      .map((s) => ({
-        driver: s.Driver,
-        vehicle: s.Vehicle,
-        vehicleId: s.VehicleId,
-        isHuman: !!(typeof s.UserId === "number" && s.UserId > 0),
-        time: s.QualTime!,
-        timeMs: parseTime(s.QualTime) * 1000,
-      }))
-      .sort((a, b) => a.timeMs - b.timeMs);
-
-    return times.slice(0, topN);
-  });
-};
+import {
+  COUNTED_RESULTS_MODE_LABELS,
+  DEFAULT_STANDINGS_CONFIG,
+  type DriverAlias,
+  RACE_BONUS_BADGES,
+  RACE_BONUS_LABELS,
+  type ParsedRace,
+  type RacePenalty,
+  type StandingsConfig,
+} from "../types/raceResults";
+import {
+  buildRaceKey,
+  buildStandings,
+  classifyRace,
+  filterRacesByClass,
+  getBestLapTimes,
+  formatPenalty,
+  formatStandingPosition,
+  getBestQualifyingTimes,
+  getRaceClasses,
+  getRaceLabel,
+  isHumanSlot,
+} from "./standingsCalculator";
+import { formatTimeDiff, makeTime } from "./timeUtils";
+
+// Escapes user-entered text (penalty notes, driver and points system names) for markup and attributes
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
 
 export const generateStandingsHTML = (
   races: ParsedRace[],
@@ -326,6 +49,9 @@ export const generateStandingsHTML = (
     carNames?: Record<string, string>;
   },
   gameData?: Record<string, any> | null,
+  standingsConfig: StandingsConfig = DEFAULT_STANDINGS_CONFIG,
+  penalties: RacePenalty[] = [],
+  driverAliases: DriverAlias[] = [],
 ): string => {
   const getVehicleName = (vehicleId?: number, vehicleName?: string): string => {
     const vehicleIdStr =
@@ -344,22 +70,11 @@ export const generateStandingsHTML = (
     return car?.Name || vehicleName || vehicleIdStr;
   };
 
-  const driverStandings = calculateDriverStandings(races);
-  const teamStandings = calculateTeamStandings(races);
-  const vehicleStandings = calculateVehicleStandings(races);
-  const bestLapTimes = getBestLapTimes(races);
-  const bestQualTimes = getBestQualifyingTimes(races);
-
-  const maxLapRows = bestLapTimes.length
-    ? Math.max(...bestLapTimes.map((times) => times.length))
-    : 0;
-  const maxQualRows = bestQualTimes.length
-    ? Math.max(...bestQualTimes.map((times) => times.length))
-    : 0;
-  const maxRaceRows = races.length
-    ? Math.max(...races.map((race) => race.slots.length))
-    : 0;
-
+  const pointsSystem = standingsConfig.rulepoints;
+  const showGrossPoints = standingsConfig.countedResults.mode !== "all";
+  const countedResultsNote = showGrossPoints
+    ? ` • ${COUNTED_RESULTS_MODE_LABELS[standingsConfig.countedResults.mode].replace("N", String(standingsConfig.countedResults.count))}`
+    : "";
   const stylesheet = `:root {
   --bg-dark: #1a1a1a;
   --bg-card: #242424;
@@ -475,6 +190,48 @@ body {
   font-size: 1.1em;
 }
 
+.class-title {
+  color: #ffffff;
+  font-size: 1.5rem;
+  margin: 10px 0 20px;
+}
+
+.results-table .dropped-score {
+  text-decoration: line-through;
+  opacity: 0.5;
+}
+
+.results-table .bonus-badge {
+  display: inline-block;
+  margin-left: 3px;
+  padding: 0 3px;
+  border-radius: 3px;
+  font-size: 0.65em;
+  font-weight: bold;
+  vertical-align: super;
+  color: #000;
+  background: #adb5bd;
+}
+
+.results-table .bonus-pole {
+  background: #ffc107;
+}
+
+.results-table .bonus-fastestLap {
+  background: #d63384;
+  color: #fff;
+}
+
+.results-table .penalty-badge {
+  background: #dc3545;
+  color: #fff;
+}
+
+.result-penalty {
+  color: #ff6b6b;
+  font-size: 0.85em;
+}
+
 .results-table .pos1 {
   background-color: #ffd700 !important;
   color: #000 !important;
@@ -622,7 +379,29 @@ body {
 }
 `;
 
-  const driverTable = `
+  const renderStandingsSection = (races: ParsedRace[]): string => {
+    const {
+      drivers: driverStandings,
+      teams: teamStandings,
+      vehicles: vehicleStandings,
+    } = buildStandings(races, standingsConfig, penalties, driverAliases);
+    const classifiedRaces = races.map((race) =>
+      classifyRace(race, standingsConfig, penalties),
+    );
+    const bestLapTimes = getBestLapTimes(races);
+    const bestQualTimes = getBestQualifyingTimes(races);
+
+    const maxLapRows = bestLapTimes.length
+      ? Math.max(...bestLapTimes.map((times) => times.length))
+      : 0;
+    const maxQualRows = bestQualTimes.length
+      ? Math.max(...bestQualTimes.map((times) => times.length))
+      : 0;
+    const maxRaceRows = races.length
+      ? Math.max(...races.map((race) => race.slots.length))
+      : 0;
+
+    const driverTable = `
   <div class="results-table-wrapper">
     <table class="results-table">
       <caption>Driver Standings</caption>
@@ -632,7 +411,8 @@ body {
           <th rowspan="2">Driver</th>
           <th rowspan="2">Vehicle</th>
           <th rowspan="2">Team</th>
-          <th rowspan="2">Points</th>
+          <th rowspan="2">${showGrossPoints ? "Net" : "Points"}</th>
+          ${showGrossPoints ? `<th rowspan="2">Gross</th>` : ""}
           ${races
             .map((race) => {
               const trackImg = leaderboardAssets?.tracks[race.trackname] || "";
@@ -668,17 +448,41 @@ body {
                 if (result === 1) posClass = "pos1";
                 else if (result === 2) posClass = "pos2";
                 else if (result === 3) posClass = "pos3";
-
-                return `<td class="points-cell">${pts ?? "-"}</td><td class="${posClass}">${result ?? "-"}</td>`;
+                const dropped =
+                  standing.droppedResults[raceIdx] && pts !== null;
+                const bonuses = standing.raceBonuses[raceIdx];
+                const racePenalties = standing.racePenalties[raceIdx];
+                const cellTitle = [
+                  ...(dropped ? ["Dropped result"] : []),
+                  ...bonuses.map(
+                    (bonus) =>
+                      `${RACE_BONUS_LABELS[bonus]} +${standingsConfig.bonusPoints[bonus]}`,
+                  ),
+                  ...racePenalties.map(formatPenalty),
+                ].join(", ");
+
+                const badges = bonuses
+                  .map(
+                    (bonus) =>
+                      `<span class="bonus-badge bonus-${bonus}">${RACE_BONUS_BADGES[bonus]}</span>`,
+                  )
+                  .join("");
+                const penaltyBadge = racePenalties.length
+                  ? `<span class="bonus-badge penalty-badge">PEN</span>`
+                  : "";
+                const ptsCell = `<td class="points-cell${dropped ? " dropped-score" : ""}"${cellTitle ? ` title="${escapeHtml(cellTitle)}"` : ""}>${pts ?? "-"}${badges}${penaltyBadge}</td>`;
+
+                return `${ptsCell}<td class="${posClass}">${result ?? standing.raceStatuses[raceIdx] ?? "-"}</td>`;
               })
               .join("");
 
             return `<tr class="${standing.isHuman ? "human-driver" : ""}">
-              <td>${standing.position}</td>
-              <td class="driver-name-cell">${standing.driver}</td>
+              <td>${formatStandingPosition(standing)}</td>
+              <td class="driver-name-cell">${escapeHtml(standing.driver)}</td>
               <td>${vehicleIcon ? `<img src="${vehicleIcon}" class="vehicle-icon" alt="${displayVehicleName}" />` : ""}${displayVehicleName}</td>
-              <td>${standing.team}</td>
+              <td>${escapeHtml(standing.team)}</td>
               <td class="points-cell">${standing.points}</td>
+              ${showGrossPoints ? `<td>${standing.grossPoints}</td>` : ""}
               ${positionCells}
             </tr>`;
           })
@@ -687,7 +491,7 @@ body {
     </table>
   </div>`;
 
-  const teamTable = `
+    const teamTable = `
   <div class="results-table-wrapper">
     <table class="results-table">
       <caption>Team Standings</caption>
@@ -711,8 +515,8 @@ body {
         ${teamStandings
           .map(
             (standing) => `<tr>
-              <td>${standing.position}</td>
-              <td>${standing.team}</td>
+              <td>${formatStandingPosition(standing)}</td>
+              <td>${escapeHtml(standing.team)}</td>
               <td>${standing.entries}</td>
               <td class="points-cell">${standing.points}</td>
               ${standing.racePoints
@@ -725,7 +529,7 @@ body {
     </table>
   </div>`;
 
-  const vehicleTable = `
+    const vehicleTable = `
   <div class="results-table-wrapper">
     <table class="results-table">
       <caption>Vehicle Standings</caption>
@@ -759,7 +563,7 @@ body {
             );
 
             return `<tr>
-              <td>${standing.position}</td>
+              <td>${formatStandingPosition(standing)}</td>
               <td>${vehicleIcon ? `<img src="${vehicleIcon}" class="vehicle-icon" alt="${displayVehicleName}" />` : ""}${displayVehicleName}</td>
               <td>${standing.entries}</td>
               <td class="points-cell">${standing.points}</td>
@@ -773,8 +577,8 @@ body {
     </table>
   </div>`;
 
-  const bestLapTable = maxLapRows
-    ? `
+    const bestLapTable = maxLapRows
+      ? `
     <div class="results-table-wrapper">
       <table class="results-table">
         <caption>Best Race Lap Times</caption>
@@ -810,7 +614,7 @@ body {
 
                   return `<td class="time-cell">
                     <div class="time-entry${time.isHuman ? " human-driver" : ""}">
-                      <div class="time-driver">${time.driver}</div>
+                      <div class="time-driver">${escapeHtml(time.driver)}</div>
                       <div class="time-info">
                         ${vehicleIcon ? `<img src="${vehicleIcon}" class="vehicle-icon" alt="${displayVehicleName}" />` : ""}
                         <span class="time-value">${time.time}</span>
@@ -830,10 +634,10 @@ body {
         </tbody>
       </table>
     </div>`
-    : "";
+      : "";
 
-  const bestQualTable = maxQualRows
-    ? `
+    const bestQualTable = maxQualRows
+      ? `
     <div class="results-table-wrapper">
       <table class="results-table">
         <caption>Best Qualification Times</caption>
@@ -869,7 +673,7 @@ body {
 
                   return `<td class="time-cell">
                     <div class="time-entry${time.isHuman ? " human-driver" : ""}">
-                      <div class="time-driver">${time.driver}</div>
+                      <div class="time-driver">${escapeHtml(time.driver)}</div>
                       <div class="time-info">
                         ${vehicleIcon ? `<img src="${vehicleIcon}" class="vehicle-icon" alt="${displayVehicleName}" />` : ""}
                         <span class="time-value">${time.time}</span>
@@ -889,10 +693,10 @@ body {
         </tbody>
       </table>
     </div>`
-    : "";
+      : "";
 
-  const raceResultsTable = maxRaceRows
-    ? `
+    const raceResultsTable = maxRaceRows
+      ? `
     <div class="results-table-wrapper">
       <table class="results-table">
         <caption>Race Results</caption>
@@ -908,23 +712,22 @@ body {
           ${Array.from({ length: maxRaceRows })
             .map((_, posIdx) => {
               const cells = races
-                .map((race) => {
-                  const sortedSlots = [...race.slots].sort((a, b) => {
-                    const aFinished =
-                      a.FinishStatus === "Finished" || !!a.TotalTime;
-                    const bFinished =
-                      b.FinishStatus === "Finished" || !!b.TotalTime;
-                    if (aFinished !== bFinished) return bFinished ? 1 : -1;
-
-                    const aTime = parseTime(a.TotalTime);
-                    const bTime = parseTime(b.TotalTime);
-                    return aTime - bTime;
-                  });
-
-                  const slot = sortedSlots[posIdx];
-                  if (!slot?.TotalTime) {
+                .map((race, raceIdx) => {
+                  const classified = classifiedRaces[raceIdx][posIdx];
+                  if (!classified) {
                     return `<td>-</td>`;
                   }
+                  const { slot, totalSeconds, status } = classified;
+                  let formattedTime = status ?? slot.TotalTime;
+                  if (!status && totalSeconds !== undefined) {
+                    formattedTime = makeTime(totalSeconds);
+                  }
+                  const penaltyNotes = classified.penalties
+                    .map(
+                      (penalty) =>
+                        `<div class="result-penalty">${escapeHtml(formatPenalty(penalty))}</div>`,
+                    )
+                    .join("");
 
                   const vehicleIcon =
                     slot.VehicleId &&
@@ -935,14 +738,14 @@ body {
                     slot.VehicleId,
                     slot.Vehicle,
                   );
-                  const isHuman =
-                    typeof slot.UserId === "number" && slot.UserId > 0;
+                  const isHuman = isHumanSlot(slot, race);
 
                   return `<td class="race-result-cell">
                     <div class="race-result-entry${isHuman ? " human-driver" : ""}">
-                      <div class="result-driver">${slot.Driver}</div>
+                      <div class="result-driver">${escapeHtml(slot.Driver)}</div>
                       <div class="result-vehicle">${vehicleIcon ? `<img src="${vehicleIcon}" class="vehicle-icon" alt="${displayVehicleName}" />` : ""}<span>${displayVehicleName}</span></div>
-                      <div class="result-time">${slot.TotalTime}</div>
+                      <div class="result-time">${formattedTime}</div>
+                      ${penaltyNotes}
                     </div>
                   </td>`;
                 })
@@ -957,8 +760,60 @@ body {
         </tbody>
       </table>
     </div>`
+      : "";
+
+    return [
+      driverTable,
+      teamStandings.length > 1 ? teamTable : "",
+      vehicleTable,
+      bestLapTable,
+      bestQualTable,
+      raceResultsTable,
+    ].join("");
+  };
+
+  const racesByKey = new Map(races.map((race) => [buildRaceKey(race), race]));
+  const penaltiesTable = penalties.length
+    ? `
+  <div class="results-table-wrapper">
+    <table class="results-table">
+      <caption>Stewards' Decisions</caption>
+      <thead>
+        <tr>
+          <th>Race</th>
+          <th>Driver</th>
+          <th>Decision</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${penalties
+          .map((penalty) => {
+            const race = racesByKey.get(penalty.raceId);
+            return `<tr>
+              <td>${race ? getRaceLabel(race) : "-"}</td>
+              <td>${escapeHtml(penalty.driver)}</td>
+              <td>${escapeHtml(formatPenalty(penalty))}</td>
+            </tr>`;
+          })
+          .join("")}
+      </tbody>
+    </table>
+  </div>`
     : "";
 
+  // Multi-class championships get one standings section per class
+  const raceClasses = getRaceClasses(races);
+  const sections =
+    raceClasses.length > 1
+      ? raceClasses
+          .map(
+            (raceClass) => `
+    <h2 class="class-title">${raceClass.name}</h2>
+    ${renderStandingsSection(filterRacesByClass(races, raceClass.key))}`,
+          )
+          .join("")
+      : renderStandingsSection(races);
+
   return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -971,15 +826,11 @@ body {
   <div class="page-container">
     <div class="results-header">
       <h1 class="results-title">${championshipName}</h1>
-      <p class="results-subtitle">Championship Standings</p>
+      <p class="results-subtitle">Championship Standings • Points system: ${escapeHtml(standingsConfig.ruleset)} (${pointsSystem.join("-")})${countedResultsNote}</p>
       <p class="results-subtitle">Generated from R3E Toolbox</p>
     </div>
-    ${driverTable}
-    ${teamStandings.length > 1 ? teamTable : ""}
-    ${vehicleTable}
-    ${bestLapTable}
-    ${bestQualTable}
-    ${raceResultsTable}
+    ${sections}
+    ${penaltiesTable}
   </div>
 </body>
 </html>`;
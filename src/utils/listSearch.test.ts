@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { fuzzyFilter, fuzzyScore, pinFavorites } from "./listSearch";
+
+const tracks = [
+  "Monza - Grand Prix",
+  "Spa-Francorchamps - Endurance",
+  "Spa-Francorchamps - Grand Prix",
+  "Sepang",
+];
+
+describe("fuzzyFilter", () => {
+  it("requires every query word to match", () => {
+    expect(fuzzyFilter(tracks, "spa gp", (t) => t)).toEqual([
+      "Spa-Francorchamps - Grand Prix",
+    ]);
+  });
+
+  it("matches spread-out letters", () => {
+    expect(fuzzyFilter(tracks, "mnz", (t) => t)).toEqual([
+      "Monza - Grand Prix",
+    ]);
+  });
+
+  it("ranks contiguous word-start matches first", () => {
+    expect(fuzzyFilter(tracks, "sp", (t) => t)[0]).toBe(
+      "Spa-Francorchamps - Endurance",
+    );
+  });
+
+  it("returns the list unchanged for an empty query", () => {
+    expect(fuzzyFilter(tracks, "  ", (t) => t)).toBe(tracks);
+  });
+
+  it("scores non-matches as null", () => {
+    expect(fuzzyScore("xyz", "Monza")).toBeNull();
+  });
+});
+
+describe("pinFavorites", () => {
+  it("moves favourites first and keeps the rest in order", () => {
+    const items = ["a", "b", "c", "d"].map((id) => ({ id }));
+    expect(pinFavorites(items, ["c", "a"]).map((i) => i.id)).toEqual([
+      "a",
+      "c",
+      "b",
+      "d",
+    ]);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Fuzzy search and data filters for the class and track lists in AI Management.
+ */
+
+import type { Database, PlayerTimes, ProcessedDatabase } from "../types";
+
+export type SelectionFilter = "playerTimes" | "validFit" | "generated";
+
+export const SELECTION_FILTER_LABELS: Record<SelectionFilter, string> = {
+  playerTimes: "Has player times",
+  validFit: "Has valid fit",
+  generated: "Has generated levels",
+};
+
+// Class IDs and "classid/trackid" keys that satisfy each filter
+export type FilterIndex = Record<SelectionFilter, Set<string>>;
+
+const isWordStart = (text: string, idx: number) =>
+  idx === 0 || !/[a-z0-9]/.test(text[idx - 1]);
+
+const scoreToken = (token: string, text: string): number | null => {
+  const substring = text.indexOf(token);
+  if (substring !== -1) {
+    // Contiguous matches rank above scattered ones, word starts above the rest
+    return token.length * 4 + (isWordStart(text, substring) ? 10 : 5);
+  }
+
+  let score = 0;
+  let from = 0;
+  let previous = -2;
+  for (const char of token) {
+    const idx = text.indexOf(char, from);
+    if (idx === -1) return null;
+    score += 1;
+    if (idx === previous + 1) score += 2;
+    if (isWordStart(text, idx)) score += 2;
+    previous = idx;
+    from = idx + 1;
+  }
+  return score;
+};
+
+/**
+ * Scores how well the query matches the text, or null when it does not.
+ * Every whitespace-separated query word must appear in order (letters may be
+ * spread out), so "spa gp" matches "Spa-Francorchamps - Grand Prix".
+ */
+export const fuzzyScore = (query: string, text: string): number | null => {
+  const tokens = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const lowered = text.toLowerCase();
+  let total = 0;
+  for (const token of tokens) {
+    const score = scoreToken(token, lowered);
+    if (score === null) return null;
+    total += score;
+  }
+  return total;
+};
+
+/**
+ * Items matching the query, best match first. Ties keep the input order.
+ */
+export const fuzzyFilter = <T>(
+  items: T[],
+  query: string,
+  getText: (item: T) => string,
+): T[] => {
+  if (!query.trim()) return items;
+  return items
+    .map((item, idx) => ({
+      item,
+      idx,
+      score: fuzzyScore(query, getText(item)),
+    }))
+    .filter((entry) => entry.score !== null)
+    .sort((a, b) => b.score! - a.score! || a.idx - b.idx)
+    .map((entry) => entry.item);
+};
+
+export const buildFilterIndex = (
+  database: Database,
+  processed: ProcessedDatabase,
+  playerTimes: PlayerTimes,
+): FilterIndex => {
+  const index: FilterIndex = {
+    playerTimes: new Set(),
+    validFit: new Set(),
+    generated: new Set(),
+  };
+  const add = (filter: SelectionFilter, classid: string, trackid: string) => {
+    index[filter].add(classid);
+    index[filter].add(`${classid}/${trackid}`);
+  };
+
+  for (const [classid, classData] of Object.entries(playerTimes.classes)) {
+    for (const [trackid, track] of Object.entries(classData.tracks)) {
+      if (track.playertimes?.length || track.playertime !== undefined) {
+        add("playerTimes", classid, trackid);
+      }
+    }
+  }
+  for (const diagnostics of processed.diagnostics ?? []) {
+    if (diagnostics.accepted) {
+      add("validFit", diagnostics.classid, diagnostics.trackid);
+    }
+  }
+  for (const [classid, classData] of Object.entries(database.classes)) {
+    for (const [trackid, track] of Object.entries(classData.tracks)) {
+      // Levels written by the toolbox carry numberOfSampledRaces = 0
+      if (Object.values(track.samplesCount ?? {}).some((n) => n === 0)) {
+        add("generated", classid, trackid);
+      }
+    }
+  }
+  return index;
+};
+
+/**
+ * Whether a class ID or "classid/trackid" key passes every active filter.
+ */
+export const passesFilters = (
+  index: FilterIndex,
+  filters: SelectionFilter[],
+  key: string,
+) => filters.every((filter) => index[filter].has(key));
+
+/**
+ * Moves favourites to the top of the list, keeping the order within each group.
+ */
+export const pinFavorites = <T extends { id: string }>(
+  items: T[],
+  favoriteIds: string[],
+): T[] => [
+  ...items.filter((item) => favoriteIds.includes(item.id)),
+  ...items.filter((item) => !favoriteIds.includes(item.id)),
+];
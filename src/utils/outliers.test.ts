@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import type { Database } from "../types";
+import { detectLapOutliers, findMonotonicityBreaks } from "./outliers";
+
+describe("detectLapOutliers", () => {
+  const mad = { method: "mad" as const, madThreshold: 3.5, pctOffBest: 3 };
+
+  it("flags laps far slower than the bulk", () => {
+    expect(
+      detectLapOutliers([90, 90.2, 90.1, 90.3, 95], mad).map((o) => o.time),
+    ).toEqual([95]);
+  });
+
+  it("never flags a fast lap", () => {
+    expect(detectLapOutliers([85, 90, 90.1, 90.2, 90.3], mad)).toEqual([]);
+  });
+
+  it("flags laps more than the given percentage off the best", () => {
+    const laps = detectLapOutliers([90, 92, 93], {
+      ...mad,
+      method: "pctOffBest",
+    });
+    expect(laps.map((o) => o.time)).toEqual([93]);
+  });
+});
+
+describe("findMonotonicityBreaks", () => {
+  it("reports the level of an out-of-order pair that is off the trend", () => {
+    const database: Database = {
+      classes: {
+        "1": {
+          tracks: {
+            "10": {
+              ailevels: {
+                80: [100],
+                85: [99],
+                90: [99.5],
+                95: [97],
+                100: [96],
+              },
+              samplesCount: { 80: 2, 85: 2, 90: 1, 95: 2, 100: 2 },
+            },
+          },
+        },
+      },
+    };
+    expect(
+      findMonotonicityBreaks(database).map((a) => [a.ailevel, a.neighbour]),
+    ).toEqual([[90, 85]]);
+  });
+});
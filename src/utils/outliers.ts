@@ -0,0 +1,175 @@
+/**
+ * Data cleanup: player lap time outliers and AI levels whose averaged lap
+ * times break the expected "higher AI = faster" order.
+ */
+
+import type { Database, OutlierMethod, PlayerTimes } from "../types";
+import { recalculateClassMinMax, recalculateTrackMinMax } from "./aiLevels";
+import { evaluateFit, fitTheilSen, median } from "./fitting";
+
+// Scales the MAD to the standard deviation of a normal distribution
+const MAD_SCALE = 0.6745;
+// Fewer laps than this give no meaningful median/MAD
+const MIN_LAPS_FOR_MAD = 3;
+
+export interface OutlierSettings {
+  method: OutlierMethod;
+  madThreshold: number;
+  pctOffBest: number;
+}
+
+export interface PlayerTimeOutlier {
+  classid: string;
+  trackid: string;
+  time: number;
+  best: number;
+  score: number; // Modified z-score (MAD) or percent off the best lap
+}
+
+export interface AILevelAnomaly {
+  classid: string;
+  trackid: string;
+  ailevel: number;
+  time: number;
+  samples: number;
+  neighbour: number; // Adjacent AI level it is out of order with
+  neighbourTime: number;
+}
+
+/**
+ * Outlier laps of one class/track with their scores. Only laps slower than
+ * the bulk are reported: a fast lap is the player's pace, not noise.
+ */
+export const detectLapOutliers = (
+  laps: number[],
+  settings: OutlierSettings,
+): Array<{ time: number; score: number }> => {
+  if (laps.length < 2) return [];
+  const best = Math.min(...laps);
+
+  if (settings.method === "pctOffBest") {
+    return laps
+      .map((time) => ({ time, score: ((time - best) / best) * 100 }))
+      .filter(({ score }) => score > settings.pctOffBest);
+  }
+
+  if (laps.length < MIN_LAPS_FOR_MAD) return [];
+  const med = median(laps);
+  const mad = median(laps.map((time) => Math.abs(time - med)));
+  if (mad === 0) return [];
+  return laps
+    .map((time) => ({ time, score: (MAD_SCALE * (time - med)) / mad }))
+    .filter(({ score }) => score > settings.madThreshold);
+};
+
+export const findPlayerTimeOutliers = (
+  playerTimes: PlayerTimes,
+  settings: OutlierSettings,
+): PlayerTimeOutlier[] => {
+  const outliers: PlayerTimeOutlier[] = [];
+  for (const [classid, classData] of Object.entries(playerTimes.classes)) {
+    for (const [trackid, track] of Object.entries(classData.tracks)) {
+      const laps = track.playertimes ?? [];
+      const best = Math.min(...laps);
+      for (const { time, score } of detectLapOutliers(laps, settings)) {
+        outliers.push({ classid, trackid, time, best, score });
+      }
+    }
+  }
+  return outliers;
+};
+
+/**
+ * AI levels whose lap time is not faster than the level below it. Of each
+ * out-of-order pair, the level further from a robust line through the track
+ * is reported (fewer sampled races on a tie).
+ */
+export const findMonotonicityBreaks = (
+  database: Database,
+): AILevelAnomaly[] => {
+  const anomalies: AILevelAnomaly[] = [];
+  for (const [classid, classData] of Object.entries(database.classes)) {
+    for (const [trackid, track] of Object.entries(classData.tracks)) {
+      const levels = Object.entries(track.ailevels)
+        .filter(([, times]) => times.length > 0)
+        .map(([ai, times]) => ({
+          ailevel: Number(ai),
+          time: times.reduce((sum, t) => sum + t, 0) / times.length,
+          samples: track.samplesCount?.[Number(ai)] ?? 0,
+        }))
+        .sort((a, b) => a.ailevel - b.ailevel);
+      if (levels.length < 2) continue;
+
+      const fit = fitTheilSen(
+        levels.map((l) => l.ailevel),
+        levels.map((l) => l.time),
+      );
+      const residual = (level: (typeof levels)[number]) =>
+        Math.abs(level.time - evaluateFit(fit, level.ailevel));
+
+      const flagged = new Set<number>();
+      for (let i = 1; i < levels.length; i++) {
+        const lower = levels[i - 1];
+        const upper = levels[i];
+        if (upper.time < lower.time) continue;
+
+        const diff = residual(upper) - residual(lower);
+        const [suspect, neighbour] =
+          diff > 1e-9 ||
+          (Math.abs(diff) <= 1e-9 && upper.samples <= lower.samples)
+            ? [upper, lower]
+            : [lower, upper];
+        if (flagged.has(suspect.ailevel)) continue;
+        flagged.add(suspect.ailevel);
+        anomalies.push({
+          classid,
+          trackid,
+          ailevel: suspect.ailevel,
+          time: suspect.time,
+          samples: suspect.samples,
+          neighbour: neighbour.ailevel,
+          neighbourTime: neighbour.time,
+        });
+      }
+    }
+  }
+  return anomalies;
+};
+
+/**
+ * Returns copies of database and player times without the given player laps
+ * and AI levels, with best laps and min/max AI levels recalculated.
+ */
+export const removeOutliers = (
+  database: Database,
+  playerTimes: PlayerTimes,
+  laps: PlayerTimeOutlier[],
+  levels: AILevelAnomaly[],
+): { database: Database; playerTimes: PlayerTimes } => {
+  const newDatabase = structuredClone(database);
+  const newPlayerTimes = structuredClone(playerTimes);
+
+  for (const { classid, trackid, time } of laps) {
+    const track = newPlayerTimes.classes[classid]?.tracks[trackid];
+    const idx = track?.playertimes?.indexOf(time) ?? -1;
+    if (!track?.playertimes || idx === -1) continue;
+    track.playertimes.splice(idx, 1);
+    if (track.playertimes.length > 0) {
+      track.playertime = Math.min(...track.playertimes);
+    } else {
+      delete track.playertime;
+    }
+  }
+
+  for (const { classid, trackid, ailevel } of levels) {
+    const classData = newDatabase.classes[classid];
+    const track = classData?.tracks[trackid];
+    if (!track) continue;
+    delete track.ailevels[ailevel];
+    delete track.samplesCount?.[ailevel];
+    recalculateTrackMinMax(track);
+    recalculateClassMinMax(classData);
+  }
+
+  return { database: newDatabase, playerTimes: newPlayerTimes };
+};
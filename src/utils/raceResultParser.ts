@@ -6,6 +6,7 @@ import type {
   RaceSlot,
   SinglePlayerRaceResult,
 } from "../types/raceResults";
+import { normalizeFinishStatus } from "./standingsCalculator";
 
 interface TrackInfo {
   layoutId: number;
@@ -26,6 +27,46 @@ const millisecondsToTime = (ms: number): string => {
   return formatTime(ms / 1000);
 };
 
+/**
+ * Fast non-cryptographic 53-bit hash (cyrb53) of the source file content.
+ * Only used to tell result files apart, so collisions are not a security concern.
+ */
+const hashContent = (text: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+};
+
+/**
+ * Identity of a race session: the same file always yields the same id, while
+ * separate visits to the same track (or Race2 of a double-header) differ.
+ */
+const buildRaceId = (
+  sessionTime: string | number,
+  sessionType: string,
+  contentHash: string,
+): string => `${sessionTime}::${sessionType}::${contentHash}`;
+
+/**
+ * Laps completed from either a lap count or a list of laps. Laps without a
+ * positive time (started but never completed) are not counted.
+ */
+const countLaps = (laps: unknown): number | undefined => {
+  if (typeof laps === "number") return laps;
+  if (!Array.isArray(laps)) return undefined;
+  return laps.filter((lap) => typeof lap?.Time !== "number" || lap.Time > 0)
+    .length;
+};
+
 const resolveClassInfo = (
   vehicleId: number | undefined,
   gameData: RaceRoomData,
@@ -121,7 +162,10 @@ const processSessionPlayers = (
       FinishTime: totalTime,
       TotalTime: totalTime,
       BestLap: bestLap,
-      FinishStatus: player.FinishStatus,
+      FinishStatus: normalizeFinishStatus(player.FinishStatus),
+      LapsCompleted: countLaps(
+        player.RaceSessionLaps ?? player.Laps ?? player.LapsCompleted,
+      ),
     });
   }
 
@@ -158,6 +202,7 @@ const parseMultiplayerResult = (
   json: MultiplayerRaceResult,
   gameData: RaceRoomData,
   ruleset: string,
+  contentHash: string,
 ): ParsedRace[] | null => {
   const { byName: trackLookup, byId: trackById } = buildTrackLookup(gameData);
 
@@ -203,6 +248,8 @@ const parseMultiplayerResult = (
       timestring,
       slots: slots1,
       ruleset,
+      sessionType: sessRace.Type,
+      raceId: buildRaceId(timestamp, sessRace.Type, contentHash),
     },
   ];
 
@@ -217,6 +264,8 @@ const parseMultiplayerResult = (
       timestring: date2.toLocaleString("en-US"),
       slots: slots2,
       ruleset,
+      sessionType: sessRace2.Type,
+      raceId: buildRaceId(timestamp, sessRace2.Type, contentHash),
     });
   }
 
@@ -280,7 +329,10 @@ const buildSinglePlayerRaceSlot = (
     TotalTime: totalTime,
     BestLap: bestLap,
     QualTime: qualTime,
-    FinishStatus: driver.finishStatus,
+    FinishStatus: normalizeFinishStatus(driver.finishStatus),
+    LapsCompleted: countLaps(
+      driver.lapsCompleted ?? driver.laps ?? driver.lapTimes,
+    ),
   };
 };
 
@@ -288,6 +340,7 @@ const parseSinglePlayerResult = (
   json: SinglePlayerRaceResult,
   gameData: RaceRoomData,
   ruleset: string,
+  contentHash: string,
 ): ParsedRace | null => {
   const { byName: trackLookup, byId: trackById } = buildTrackLookup(gameData);
 
@@ -315,6 +368,8 @@ const parseSinglePlayerResult = (
     timestring,
     slots,
     ruleset,
+    sessionType: "Race",
+    raceId: buildRaceId(timestring, "Race", contentHash),
   };
 };
 
@@ -351,12 +406,15 @@ export const parseResultFile = async (
       return null;
     }
 
+    const contentHash = hashContent(text);
+
     if (json.Server || json.Sessions) {
       // Multiplayer/dedicated server format
       return parseMultiplayerResult(
         json as MultiplayerRaceResult,
         gameData,
         ruleset,
+        contentHash,
       );
     } else if (json.header && json.drivers) {
       // Single player format
@@ -364,6 +422,7 @@ export const parseResultFile = async (
         json as SinglePlayerRaceResult,
         gameData,
         ruleset,
+        contentHash,
       );
       return result ? [result] : null;
     }
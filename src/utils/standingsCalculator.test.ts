@@ -0,0 +1,356 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_STANDINGS_CONFIG,
+  type ParsedRace,
+  type RaceSlot,
+} from "../types/raceResults";
+import {
+  buildStandings,
+  classifyRace,
+  formatStandingPosition,
+  getDroppedResults,
+  getStandingsConfig,
+} from "./standingsCalculator";
+
+const slot = (
+  driver: string,
+  position: number,
+  overrides: Partial<RaceSlot> = {},
+): RaceSlot => ({
+  Driver: driver,
+  Team: "",
+  Vehicle: "Car",
+  ClassName: "GT3",
+  ClassId: 1,
+  Position: position,
+  FinishStatus: "Finished",
+  FinishTime: `20:${String(position).padStart(2, "0")}.000`,
+  TotalTime: `20:${String(position).padStart(2, "0")}.000`,
+  ...overrides,
+});
+
+const race = (timestring: string, slots: RaceSlot[]): ParsedRace => ({
+  trackname: "Track",
+  trackid: 1,
+  timestring,
+  slots,
+  ruleset: "default",
+  raceId: timestring,
+});
+
+describe("points systems", () => {
+  it("awards the configured points by finishing position", () => {
+    const config = {
+      ...DEFAULT_STANDINGS_CONFIG,
+      ruleset: "custom",
+      rulepoints: [10, 6, 3],
+    };
+    const { drivers } = buildStandings(
+      [race("r1", [slot("A", 1), slot("B", 2), slot("C", 3), slot("D", 4)])],
+      config,
+    );
+    expect(drivers.map((d) => [d.driver, d.points])).toEqual([
+      ["A", 10],
+      ["B", 6],
+      ["C", 3],
+      ["D", 0],
+    ]);
+  });
+
+  it("falls back to the default points for championships without rules", () => {
+    expect(getStandingsConfig({})).toEqual(DEFAULT_STANDINGS_CONFIG);
+  });
+});
+
+describe("buildStandings", () => {
+  it("sums race points per driver, team and vehicle", () => {
+    const red = { Team: "Red", Vehicle: "M4" };
+    const blue = { Team: "Blue", Vehicle: "M4" };
+    const redR8 = { Team: "Red", Vehicle: "R8" };
+    const { drivers, teams, vehicles } = buildStandings([
+      race("r1", [slot("A", 1, red), slot("B", 2, blue), slot("C", 3, redR8)]),
+      race("r2", [slot("B", 1, blue), slot("C", 2, redR8), slot("A", 3, red)]),
+    ]);
+    expect(drivers.map((d) => [d.driver, d.points])).toEqual([
+      ["B", 43],
+      ["A", 40],
+      ["C", 33],
+    ]);
+    expect(teams.map((t) => [t.team, t.points])).toEqual([
+      ["Red", 73],
+      ["Blue", 43],
+    ]);
+    expect(vehicles.map((v) => [v.vehicle, v.points])).toEqual([
+      ["M4", 83],
+      ["R8", 33],
+    ]);
+  });
+});
+
+describe("tie-breakers", () => {
+  // Every driver scores 16 points: A and C with a win each, B with two seconds
+  const races = [
+    race("r1", [slot("A", 1), slot("B", 2), slot("C", 3)]),
+    race("r2", [slot("C", 1), slot("B", 2), slot("A", 3)]),
+  ];
+  const config = { ...DEFAULT_STANDINGS_CONFIG, rulepoints: [10, 8, 6] };
+
+  it("applies the chain in order until the tie is broken", () => {
+    // Wins put B last, then the latest race puts C ahead of A
+    const { drivers } = buildStandings(races, config);
+    expect(drivers.map((d) => [d.driver, d.position, d.tied])).toEqual([
+      ["C", 1, false],
+      ["A", 2, false],
+      ["B", 3, false],
+    ]);
+  });
+
+  it("shares a position when the chain cannot separate drivers", () => {
+    const { drivers } = buildStandings(races, {
+      ...config,
+      tieBreakers: ["wins"],
+    });
+    expect(drivers.map(formatStandingPosition)).toEqual(["=1st", "=1st", "3"]);
+  });
+
+  it("counts equal results as neither a win nor a loss in head-to-head", () => {
+    // Both class winners share every result, so nothing separates them
+    const gt4 = { ClassName: "GT4", ClassId: 2 };
+    const { drivers } = buildStandings(
+      [
+        race("r1", [slot("A", 1), slot("X", 2), slot("B", 3, gt4)]),
+        race("r2", [
+          slot("Z", 1),
+          slot("A", 2),
+          slot("X", 3),
+          slot("Y", 4, gt4),
+          slot("B", 5, gt4),
+        ]),
+      ],
+      { ...DEFAULT_STANDINGS_CONFIG, tieBreakers: ["headToHead"] },
+    );
+    const a = drivers.find((d) => d.driver === "A")!;
+    const b = drivers.find((d) => d.driver === "B")!;
+    expect([a.tied, b.tied]).toEqual([true, true]);
+    expect(a.position).toBe(b.position);
+  });
+});
+
+describe("getDroppedResults", () => {
+  it("keeps every result by default", () => {
+    expect(getDroppedResults([25, 10, 18], { mode: "all", count: 0 })).toEqual([
+      false,
+      false,
+      false,
+    ]);
+  });
+
+  it("keeps the best N results", () => {
+    expect(
+      getDroppedResults([25, 10, 18], { mode: "bestOf", count: 2 }),
+    ).toEqual([false, true, false]);
+  });
+
+  it("drops missed races first, then the earliest of equal scores", () => {
+    expect(
+      getDroppedResults([10, null, 10, 25], { mode: "dropWorst", count: 2 }),
+    ).toEqual([true, true, false, false]);
+  });
+
+  it("leaves the gross total including dropped scores", () => {
+    const { drivers } = buildStandings(
+      [
+        race("r1", [slot("A", 1), slot("B", 2)]),
+        race("r2", [slot("B", 1), slot("A", 2)]),
+        race("r3", [slot("B", 1), slot("A", 2)]),
+      ],
+      {
+        ...DEFAULT_STANDINGS_CONFIG,
+        countedResults: { mode: "dropWorst", count: 1 },
+      },
+    );
+    const a = drivers.find((d) => d.driver === "A")!;
+    expect(a.droppedResults).toEqual([false, true, false]);
+    expect([a.points, a.grossPoints]).toEqual([43, 61]);
+  });
+
+  it("counts every result when the best N is below one", () => {
+    expect(getDroppedResults([25, 18], { mode: "bestOf", count: 0 })).toEqual([
+      false,
+      false,
+    ]);
+  });
+});
+
+describe("bonus points", () => {
+  const r = race("r1", [
+    slot("A", 1, { QualTime: "1:30.000", BestLap: "1:31.000" }),
+    slot("B", 2, { QualTime: "1:29.000", BestLap: "1:32.000" }),
+    slot("C", 3, { QualTime: "1:31.000", BestLap: "1:30.500" }),
+  ]);
+  const bonusConfig = (fastestLapTopN: number) => ({
+    ...DEFAULT_STANDINGS_CONFIG,
+    rulepoints: [10, 8, 6],
+    bonusPoints: { pole: 3, fastestLap: 2, fastestLapTopN, finish: 1 },
+  });
+
+  it("adds pole and finish bonuses to the race score", () => {
+    expect(
+      classifyRace(r, bonusConfig(2)).map((c) => [
+        c.slot.Driver,
+        c.points,
+        c.bonuses,
+      ]),
+    ).toEqual([
+      ["A", 11, ["finish"]],
+      ["B", 12, ["pole", "finish"]],
+      ["C", 7, ["finish"]],
+    ]);
+  });
+
+  it("awards the fastest lap only inside the top N", () => {
+    const points = (topN: number) =>
+      classifyRace(r, bonusConfig(topN)).find((c) => c.slot.Driver === "C")!
+        .points;
+    expect(points(2)).toBe(7);
+    expect(points(0)).toBe(9);
+  });
+});
+
+describe("multi-class races", () => {
+  const gt4 = { ClassName: "GT4", ClassId: 2 };
+
+  it("scores positions within each class", () => {
+    const classified = classifyRace(
+      race("r1", [slot("A", 1), slot("B", 2, gt4), slot("C", 3)]),
+    );
+    const results = classified.map((c) => [
+      c.slot.Driver,
+      c.position,
+      c.points,
+    ]);
+    expect(results.sort()).toEqual([
+      ["A", 1, 25],
+      ["B", 1, 25],
+      ["C", 2, 18],
+    ]);
+  });
+
+  it("ranks the same way regardless of entry order", () => {
+    const races = [
+      race("r1", [slot("A", 1), slot("B", 1, gt4), slot("C", 2)]),
+      race("r2", [slot("C", 1), slot("B", 1, gt4), slot("A", 2)]),
+    ];
+    const reversed = races.map((r) => ({
+      ...r,
+      slots: [...r.slots].reverse(),
+    }));
+    const order = (rs: ParsedRace[]) =>
+      buildStandings(rs)
+        .drivers.map((d) => `${d.position}${d.driver}`)
+        .sort();
+    expect(order(reversed)).toEqual(order(races));
+  });
+});
+
+describe("penalties", () => {
+  it("re-ranks time penalties and deducts points", () => {
+    const classified = classifyRace(
+      race("r1", [slot("A", 1), slot("B", 2), slot("C", 3)]),
+      undefined,
+      [
+        { id: "p1", raceId: "r1", driver: "A", type: "time", value: 5 },
+        {
+          id: "p2",
+          raceId: "r1",
+          driver: "C",
+          type: "pointsDeduction",
+          value: 5,
+        },
+        {
+          id: "p3",
+          raceId: "r2",
+          driver: "B",
+          type: "disqualification",
+          value: 0,
+        },
+      ],
+    );
+    expect(
+      classified.map((c) => [c.slot.Driver, c.position, c.points]),
+    ).toEqual([
+      ["B", 1, 25],
+      ["C", 2, 13],
+      ["A", 3, 15],
+    ]);
+  });
+
+  it("applies a penalty only to the entry it was given to", () => {
+    // Two AI entries share a name; the second one is keyed name:Bot#2
+    const classified = classifyRace(
+      race("r1", [slot("Bot", 1), slot("Bot", 2), slot("Human", 3)]),
+      undefined,
+      [
+        {
+          id: "p1",
+          raceId: "r1",
+          driver: "Bot",
+          sourceKey: "name:Bot#2",
+          type: "disqualification",
+          value: 0,
+        },
+      ],
+    );
+    expect(
+      classified.map((c) => [c.slot.Driver, c.status ?? c.position]),
+    ).toEqual([
+      ["Bot", 1],
+      ["Human", 2],
+      ["Bot", "DQ"],
+    ]);
+  });
+});
+
+describe("classification", () => {
+  it("classifies by laps completed and labels everyone else", () => {
+    const classified = classifyRace(
+      race("r1", [
+        slot("A", 1, { LapsCompleted: 10, TotalTime: "20:00.000" }),
+        slot("B", 2, { LapsCompleted: 9, TotalTime: "20:30.000" }),
+        slot("C", 3, {
+          LapsCompleted: 9,
+          TotalTime: "20:10.000",
+          FinishStatus: "DidNotFinish",
+        }),
+        slot("D", 4, { LapsCompleted: 5, FinishStatus: "DNF" }),
+        slot("E", 5, { LapsCompleted: 0, FinishStatus: "DidNotStart" }),
+        slot("F", 6, { LapsCompleted: 8, TotalTime: "20:40.000" }),
+      ]),
+    );
+    // C retired on the same lap as lapped finisher B, F missed 90% of the laps
+    expect(
+      classified.map((c) => [c.slot.Driver, c.status ?? c.position]),
+    ).toEqual([
+      ["A", 1],
+      ["B", 2],
+      ["C", 3],
+      ["D", "DNF"],
+      ["E", "DNS"],
+      ["F", "NC"],
+    ]);
+  });
+
+  it("uses the configured share of the leader's laps", () => {
+    const r = race("r1", [
+      slot("A", 1, { LapsCompleted: 10 }),
+      slot("B", 2, { LapsCompleted: 5 }),
+    ]);
+    const position = (classificationThreshold: number) =>
+      classifyRace(r, {
+        ...DEFAULT_STANDINGS_CONFIG,
+        classificationThreshold,
+      })[1].position;
+    expect(position(90)).toBeNull();
+    expect(position(50)).toBe(2);
+  });
+});
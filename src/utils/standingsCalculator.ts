@@ -1,244 +1,798 @@
 /**
  * Championship standings calculator.
  *
+ * Single standings engine shared by the in-app detail view and the exported
+ * HTML, so both always rank drivers, teams and vehicles the same way.
+ *
  * Logic inspired by r3e-open-championship by pixeljetstream:
  * https://github.com/pixeljetstream/r3e-open-championship
  */
 
+import type { ChampionshipEntry } from "../types";
 import {
-  DEFAULT_POINTS_SYSTEM,
+  DEFAULT_STANDINGS_CONFIG,
+  type BestTime,
+  type ChampionshipStandings,
+  type ClassifiedSlot,
+  type CountedResultsRule,
+  type DriverAlias,
+  type DriverEntry,
+  type DriverIdentity,
+  type DriverStanding,
+  type FinishStatus,
   type ParsedRace,
+  type RaceBonus,
+  type RaceClass,
   type RaceDatabase,
+  type RacePenalty,
+  type RaceSlot,
+  type StandingsConfig,
+  type TeamStanding,
+  type TieBreakRule,
+  type VehicleStanding,
 } from "../types/raceResults";
+import { makeTime, parseTime } from "./timeUtils";
+
+const FINISH_STATUS_ALIASES: Record<string, FinishStatus> = {
+  finished: "Finished",
+  dnf: "DNF",
+  didnotfinish: "DNF",
+  retired: "DNF",
+  dns: "DNS",
+  didnotstart: "DNS",
+  dq: "DQ",
+  dsq: "DQ",
+  disqualified: "DQ",
+};
 
-interface DriverPoints {
-  points: number;
-  positions: number[];
-  races: number;
-}
+/**
+ * Maps the finish status spellings found in single-player and dedicated
+ * server results ("DidNotFinish", "DNF", ...) onto one set of values.
+ */
+export const normalizeFinishStatus = (
+  status: string | undefined,
+): FinishStatus | undefined =>
+  status
+    ? FINISH_STATUS_ALIASES[status.toLowerCase().replace(/[^a-z]/g, "")]
+    : undefined;
 
-interface StandingsEntry {
-  driver: string;
-  vehicle: string;
-  team: string;
-  points: number;
-  positions: number[];
-}
+/**
+ * Returns the scoring rules of a championship. Rules missing from
+ * championships saved by older versions are filled in from the defaults.
+ */
+export const getStandingsConfig = (
+  championship?: Pick<ChampionshipEntry, "standingsConfig">,
+): StandingsConfig => {
+  const config = championship?.standingsConfig;
+  if (!config?.rulepoints?.length) return DEFAULT_STANDINGS_CONFIG;
+  return { ...DEFAULT_STANDINGS_CONFIG, ...config };
+};
 
-export const calculateRacePoints = (
-  race: ParsedRace,
-  pointsSystem: number[] = DEFAULT_POINTS_SYSTEM.default,
-): Map<string, number> => {
-  const pointsMap = new Map<string, number>();
+const getTotalSeconds = (slot: RaceSlot): number =>
+  parseTime(slot.TotalTime ?? "") ?? Infinity;
+
+// Fallback for results without lap counts: a total time and no DNF/DNS/DQ
+const hasFinished = (slot: RaceSlot): boolean => {
+  const status = normalizeFinishStatus(slot.FinishStatus);
+  return (
+    !!slot.TotalTime &&
+    (status === undefined || status === "Finished") &&
+    Number.isFinite(getTotalSeconds(slot))
+  );
+};
 
-  // Sort by finish time
-  const sorted = [...race.slots].sort((a, b) => {
-    const timeA = parseTimeToSeconds(a.FinishTime);
-    const timeB = parseTimeToSeconds(b.FinishTime);
+const compareTotalSeconds = (a: number, b: number): number =>
+  a === b ? 0 : a - b;
 
-    // DNF/DNS should be at the end
-    if (!timeA && !timeB) return 0;
-    if (!timeA) return 1;
-    if (!timeB) return -1;
+/**
+ * Fingerprint used for races stored before race ids existed: track, class
+ * and session time, so re-importing their source file is still detected.
+ */
+export const buildLegacyRaceKey = (race: ParsedRace): string => {
+  const classInfo = race.slots.find(
+    (slot) => slot.ClassId !== undefined || slot.ClassName,
+  );
+  const classPart =
+    classInfo?.ClassId === undefined
+      ? classInfo?.ClassName || "unknown-class"
+      : String(classInfo.ClassId);
+  const trackPart = race.trackid ? String(race.trackid) : race.trackname;
+  return `${trackPart}::${classPart}::${race.timestring}`;
+};
 
-    return timeA - timeB;
-  });
+export const buildRaceKey = (race: ParsedRace): string =>
+  race.raceId ?? buildLegacyRaceKey(race);
 
-  // Assign points based on position
-  sorted.forEach((slot, index) => {
-    if (
-      slot.FinishTime &&
-      slot.FinishStatus !== "DNF" &&
-      slot.FinishStatus !== "DNS"
-    ) {
-      const points = pointsSystem[index] || 0;
-      pointsMap.set(slot.Driver, points);
-    } else {
-      pointsMap.set(slot.Driver, 0);
+export const getRaceLabel = (race: ParsedRace): string =>
+  race.timestring ? `${race.trackname} (${race.timestring})` : race.trackname;
+
+const getClassKey = (slot: RaceSlot): string =>
+  slot.ClassId === undefined ? (slot.ClassName ?? "") : String(slot.ClassId);
+
+/**
+ * Lists the car classes that took part in the races, in order of first
+ * appearance.
+ */
+export const getRaceClasses = (races: ParsedRace[]): RaceClass[] => {
+  const classes = new Map<string, RaceClass>();
+  for (const slot of races.flatMap((race) => race.slots)) {
+    const key = getClassKey(slot);
+    if (classes.has(key)) continue;
+    classes.set(key, {
+      key,
+      name:
+        slot.ClassName ||
+        (slot.ClassId === undefined
+          ? "Unknown class"
+          : `Class ${slot.ClassId}`),
+    });
+  }
+  return [...classes.values()];
+};
+
+/**
+ * Keeps only the entries of one class, dropping races the class did not run.
+ * Each race keeps the key of the full race so penalties still match it.
+ */
+export const filterRacesByClass = (
+  races: ParsedRace[],
+  classKey: string,
+): ParsedRace[] =>
+  races
+    .map((race) => ({
+      ...race,
+      raceId: buildRaceKey(race),
+      slots: race.slots.filter((slot) => getClassKey(slot) === classKey),
+    }))
+    .filter((race) => race.slots.length > 0);
+
+// Identity before aliases: UserId when present, otherwise the driver name.
+// Same-named drivers without a UserId (AI) in one class get a numbered key
+// so they are not merged into a single entry.
+export const getSourceKeys = (race: ParsedRace): Map<RaceSlot, string> => {
+  const keys = new Map<RaceSlot, string>();
+  const occurrences = new Map<string, number>();
+  for (const slot of race.slots) {
+    if (typeof slot.UserId === "number" && slot.UserId > 0) {
+      keys.set(slot, `user:${slot.UserId}`);
+      continue;
     }
-  });
+    const nameKey = `name:${slot.Driver}`;
+    const classNameKey = `${getClassKey(slot)}|${nameKey}`;
+    const occurrence = (occurrences.get(classNameKey) ?? 0) + 1;
+    occurrences.set(classNameKey, occurrence);
+    keys.set(slot, occurrence === 1 ? nameKey : `${nameKey}#${occurrence}`);
+  }
+  return keys;
+};
 
-  return pointsMap;
+/**
+ * Resolves who each slot of a race counts as in the standings, so a driver
+ * renaming mid-season keeps a single entry. Aliases then merge or split
+ * entries; an alias scoped to the race wins over a championship-wide one.
+ */
+export const getDriverIdentities = (
+  race: ParsedRace,
+  aliases: DriverAlias[] = [],
+): Map<RaceSlot, DriverIdentity> => {
+  const raceKey = buildRaceKey(race);
+  const identities = new Map<RaceSlot, DriverIdentity>();
+  for (const [slot, sourceKey] of getSourceKeys(race)) {
+    const alias =
+      aliases.find((a) => a.sourceKey === sourceKey && a.raceId === raceKey) ??
+      aliases.find((a) => a.sourceKey === sourceKey && !a.raceId);
+    identities.set(
+      slot,
+      alias
+        ? { key: `alias:${alias.identity}`, name: alias.identity, sourceKey }
+        : { key: sourceKey, name: slot.Driver, sourceKey },
+    );
+  }
+  return identities;
 };
 
-function parseTimeToSeconds(timeStr: string | undefined): number | null {
-  if (!timeStr) return null;
+/**
+ * Lists every driver found in the races, before aliases are applied, in
+ * order of first appearance.
+ */
+export const getDriverEntries = (races: ParsedRace[]): DriverEntry[] => {
+  const entries = new Map<string, DriverEntry>();
+  for (const race of races) {
+    const raceKey = buildRaceKey(race);
+    for (const [slot, sourceKey] of getSourceKeys(race)) {
+      let entry = entries.get(sourceKey);
+      if (!entry) {
+        entry = {
+          sourceKey,
+          userId: slot.UserId && slot.UserId > 0 ? slot.UserId : undefined,
+          names: [],
+          raceIds: [],
+        };
+        entries.set(sourceKey, entry);
+      }
+      if (!entry.names.includes(slot.Driver)) entry.names.push(slot.Driver);
+      if (!entry.raceIds.includes(raceKey)) entry.raceIds.push(raceKey);
+    }
+  }
+  return [...entries.values()];
+};
 
-  const parts = timeStr.split(":");
-  let seconds = 0;
+/**
+ * A slot belongs to a human driver when it carries a positive UserId.
+ * Single-player results without any UserId fall back to the first slot,
+ * which RaceRoom always writes for the local player.
+ */
+export const isHumanSlot = (slot: RaceSlot, race: ParsedRace): boolean => {
+  if (typeof slot.UserId === "number" && slot.UserId > 0) return true;
+  const hasUserIds = race.slots.some(
+    (s) => typeof s.UserId === "number" && s.UserId > 0,
+  );
+  return !hasUserIds && race.slots[0] === slot;
+};
 
-  if (parts.length === 3) {
-    // H:M:S.ms
-    seconds =
-      Number(parts[0]) * 3600 + Number(parts[1]) * 60 + Number(parts[2]);
-  } else if (parts.length === 2) {
-    // M:S.ms
-    seconds = Number(parts[0]) * 60 + Number(parts[1]);
-  } else {
-    seconds = Number(timeStr);
+// Slot with the lowest positive time; the first one listed wins a dead heat
+const findFastestSlot = (
+  slots: RaceSlot[],
+  getTime: (slot: RaceSlot) => string | undefined,
+): RaceSlot | undefined => {
+  let fastest: RaceSlot | undefined;
+  let fastestSeconds = Infinity;
+  for (const slot of slots) {
+    const seconds = parseTime(getTime(slot) ?? "");
+    if (seconds !== undefined && seconds > 0 && seconds < fastestSeconds) {
+      fastest = slot;
+      fastestSeconds = seconds;
+    }
   }
+  return fastest;
+};
 
-  return Number.isNaN(seconds) ? null : seconds;
-}
+const getRaceBonuses = (
+  slot: RaceSlot,
+  position: number | null,
+  classSlots: RaceSlot[],
+  config: StandingsConfig,
+): RaceBonus[] => {
+  const { fastestLapTopN } = config.bonusPoints;
+  const bonuses: RaceBonus[] = [];
+  if (findFastestSlot(classSlots, (s) => s.QualTime) === slot) {
+    bonuses.push("pole");
+  }
+  if (
+    findFastestSlot(classSlots, (s) => s.BestLap) === slot &&
+    position !== null &&
+    (fastestLapTopN <= 0 || position <= fastestLapTopN)
+  ) {
+    bonuses.push("fastestLap");
+  }
+  if (position !== null) bonuses.push("finish");
+  return bonuses;
+};
 
-export const buildStandings = (
-  races: ParsedRace[],
-  pointsSystem: number[] = DEFAULT_POINTS_SYSTEM.default,
-): {
-  drivers: StandingsEntry[];
-  teams: Map<string, number>;
-  vehicles: Map<string, number>;
-} => {
-  const driverStats = new Map<string, DriverPoints>();
-  const driverInfo = new Map<string, { vehicle: string; team: string }>();
-  const teamPoints = new Map<string, number>();
-  const vehiclePoints = new Map<string, number>();
-
-  // Process each race
-  for (const race of races) {
-    const racePoints = calculateRacePoints(race, pointsSystem);
-
-    // Sort to get positions
-    const sorted = [...race.slots].sort((a, b) => {
-      const timeA = parseTimeToSeconds(a.FinishTime);
-      const timeB = parseTimeToSeconds(b.FinishTime);
-      if (!timeA && !timeB) return 0;
-      if (!timeA) return 1;
-      if (!timeB) return -1;
-      return timeA - timeB;
-    });
+const sumPenalties = (penalties: RacePenalty[], type: RacePenalty["type"]) =>
+  penalties
+    .filter((penalty) => penalty.type === type)
+    .reduce((sum, penalty) => sum + penalty.value, 0);
 
-    sorted.forEach((slot, index) => {
-      const driver = slot.Driver;
-      const points = racePoints.get(driver) || 0;
-      const position = index + 1;
+/**
+ * Describes a penalty for notes and tooltips, e.g. "+5s time penalty (unsafe rejoin)".
+ */
+export const formatPenalty = (penalty: RacePenalty): string => {
+  const descriptions: Record<RacePenalty["type"], string> = {
+    time: `+${penalty.value}s time penalty`,
+    positionDrop: `${penalty.value}-place drop`,
+    disqualification: "Disqualified",
+    pointsDeduction: `-${penalty.value} points`,
+  };
+  const description = descriptions[penalty.type];
+  return penalty.note ? `${description} (${penalty.note})` : description;
+};
 
-      // Update driver stats
-      if (!driverStats.has(driver)) {
-        driverStats.set(driver, { points: 0, positions: [], races: 0 });
-        driverInfo.set(driver, { vehicle: slot.Vehicle, team: slot.Team });
-      }
+/**
+ * Moves penalised drivers down the order. Drops are applied from the back of
+ * the field so every penalised driver ends up exactly N places lower.
+ */
+const applyPositionDrops = (
+  ordered: RaceSlot[],
+  getPenalties: (slot: RaceSlot) => RacePenalty[],
+): RaceSlot[] => {
+  const result = [...ordered];
+  for (const slot of [...ordered].reverse()) {
+    const drop = sumPenalties(getPenalties(slot), "positionDrop");
+    if (drop <= 0) continue;
+    const from = result.indexOf(slot);
+    result.splice(from, 1);
+    result.splice(Math.min(from + drop, result.length), 0, slot);
+  }
+  return result;
+};
 
-      const stats = driverStats.get(driver)!;
-      stats.points += points;
-      stats.positions.push(position);
-      stats.races += 1;
+/**
+ * Orders a race into its final classification and awards points.
+ * Drivers who covered the configured share of their class leader's laps are
+ * classified, by laps completed and then total time, so a retirement can never
+ * outscore a lapped finisher. Results without lap counts fall back to the
+ * finish status and total time. Everyone else follows without a position or
+ * position points, labelled NC, DNF, DNS or DQ.
+ * Positions, points and bonuses are counted within each car class, so in a
+ * multi-class race every class has its own winner, and entries are returned
+ * grouped by class in finishing order.
+ * Bonus points are added on top: pole scores even without a finish, the
+ * fastest lap only for a classified finish inside the configured top N.
+ * Penalties matching the race are applied first: time penalties re-rank the
+ * field, then position drops, disqualifications remove the entry from the
+ * classification and points deductions come off the race score.
+ */
+export const classifyRace = (
+  race: ParsedRace,
+  config: StandingsConfig = DEFAULT_STANDINGS_CONFIG,
+  penalties: RacePenalty[] = [],
+): ClassifiedSlot[] => {
+  const raceKey = buildRaceKey(race);
+  const sourceKeys = getSourceKeys(race);
+  const racePenalties = penalties.filter(
+    (penalty) => penalty.raceId === raceKey,
+  );
+  const getPenalties = (slot: RaceSlot) =>
+    racePenalties.filter((penalty) =>
+      penalty.sourceKey
+        ? penalty.sourceKey === sourceKeys.get(slot)
+        : penalty.driver === slot.Driver,
+    );
+  const isDisqualified = (slot: RaceSlot) =>
+    getPenalties(slot).some((penalty) => penalty.type === "disqualification");
+  const getAdjustedSeconds = (slot: RaceSlot) =>
+    getTotalSeconds(slot) + sumPenalties(getPenalties(slot), "time");
+  const isStarter = (slot: RaceSlot) =>
+    normalizeFinishStatus(slot.FinishStatus) !== "DNS" &&
+    normalizeFinishStatus(slot.FinishStatus) !== "DQ" &&
+    !isDisqualified(slot);
+
+  const leaderLaps = new Map<string, number>();
+  for (const slot of race.slots.filter(isStarter)) {
+    const key = getClassKey(slot);
+    leaderLaps.set(
+      key,
+      Math.max(leaderLaps.get(key) ?? 0, slot.LapsCompleted ?? 0),
+    );
+  }
+  const isClassified = (slot: RaceSlot) => {
+    if (!isStarter(slot)) return false;
+    const leader = leaderLaps.get(getClassKey(slot)) ?? 0;
+    if (slot.LapsCompleted === undefined || leader === 0) {
+      return hasFinished(slot);
+    }
+    const minimumLaps = Math.ceil(
+      (leader * config.classificationThreshold) / 100,
+    );
+    return slot.LapsCompleted > 0 && slot.LapsCompleted >= minimumLaps;
+  };
+  const getStatus = (slot: RaceSlot): string => {
+    if (isDisqualified(slot)) return "DQ";
+    const status = normalizeFinishStatus(slot.FinishStatus);
+    return status === undefined || status === "Finished" ? "NC" : status;
+  };
 
-      // Update team points
-      if (slot.Team) {
-        teamPoints.set(slot.Team, (teamPoints.get(slot.Team) || 0) + points);
-      }
+  const finishers = race.slots.filter(isClassified).sort(
+    (a, b) =>
+      (b.LapsCompleted ?? 0) - (a.LapsCompleted ?? 0) ||
+      // On the same lap a driver who took the flag beats one who retired
+      Number(hasFinished(b)) - Number(hasFinished(a)) ||
+      compareTotalSeconds(getAdjustedSeconds(a), getAdjustedSeconds(b)),
+  );
+  const unclassified = race.slots.filter((slot) => !finishers.includes(slot));
+
+  // Disqualified entries cannot take pole or fastest lap from anyone else
+  const classSlots = new Map<string, RaceSlot[]>();
+  for (const slot of race.slots.filter((s) => !isDisqualified(s))) {
+    const key = getClassKey(slot);
+    classSlots.set(key, [...(classSlots.get(key) ?? []), slot]);
+  }
+  const classFinishers = new Map<string, RaceSlot[]>();
+  for (const slot of finishers) {
+    const key = getClassKey(slot);
+    classFinishers.set(key, [...(classFinishers.get(key) ?? []), slot]);
+  }
 
-      // Update vehicle points
-      if (slot.Vehicle) {
-        vehiclePoints.set(
-          slot.Vehicle,
-          (vehiclePoints.get(slot.Vehicle) || 0) + points,
-        );
-      }
-    });
+  const score = (
+    slot: RaceSlot,
+    position: number | null,
+    positionPoints: number,
+  ): ClassifiedSlot => {
+    const slotPenalties = getPenalties(slot);
+    // Bonuses worth zero points are not awarded, so no badge is shown either
+    const bonuses = isDisqualified(slot)
+      ? []
+      : getRaceBonuses(
+          slot,
+          position,
+          classSlots.get(getClassKey(slot)) ?? [],
+          config,
+        ).filter((bonus) => config.bonusPoints[bonus] > 0);
+    const bonusPoints = bonuses.reduce(
+      (sum, bonus) => sum + config.bonusPoints[bonus],
+      0,
+    );
+    return {
+      slot,
+      position,
+      points:
+        positionPoints +
+        bonusPoints -
+        sumPenalties(slotPenalties, "pointsDeduction"),
+      bonuses,
+      penalties: slotPenalties,
+      totalSeconds: position === null ? undefined : getAdjustedSeconds(slot),
+      status: position === null ? getStatus(slot) : undefined,
+    };
+  };
+
+  return [
+    ...[...classFinishers.values()].flatMap((ordered) =>
+      applyPositionDrops(ordered, getPenalties).map((slot, index) =>
+        score(slot, index + 1, config.rulepoints[index] ?? 0),
+      ),
+    ),
+    ...unclassified.map((slot) => score(slot, null, 0)),
+  ];
+};
+
+export const calculateRacePoints = (
+  race: ParsedRace,
+  config: StandingsConfig = DEFAULT_STANDINGS_CONFIG,
+  penalties: RacePenalty[] = [],
+): Map<string, number> => {
+  const pointsMap = new Map<string, number>();
+  for (const { slot, points } of classifyRace(race, config, penalties)) {
+    pointsMap.set(slot.Driver, points);
   }
+  return pointsMap;
+};
+
+const countPosition = (results: (number | null)[], position: number) =>
+  results.filter((p) => p === position).length;
+
+const countPositionsUpTo = (results: (number | null)[], maxPosition: number) =>
+  results.filter((p) => p !== null && p <= maxPosition).length;
 
-  // Build final standings
-  const drivers: StandingsEntry[] = [];
-  for (const [driver, stats] of driverStats) {
-    const info = driverInfo.get(driver)!;
-    drivers.push({
-      driver,
-      vehicle: info.vehicle,
-      team: info.team,
-      points: stats.points,
-      positions: stats.positions,
+// Missing results rank behind any classified finish
+const resultRank = (result: number | null): number => result ?? Infinity;
+
+/**
+ * Tie-break comparators: a negative value ranks `a` ahead of `b`,
+ * zero leaves the tie to the next rule in the chain.
+ */
+const TIE_BREAKERS: Record<
+  TieBreakRule,
+  (a: DriverStanding, b: DriverStanding) => number
+> = {
+  wins: (a, b) =>
+    countPosition(b.raceResults, 1) - countPosition(a.raceResults, 1),
+  seconds: (a, b) =>
+    countPosition(b.raceResults, 2) - countPosition(a.raceResults, 2),
+  thirds: (a, b) =>
+    countPosition(b.raceResults, 3) - countPosition(a.raceResults, 3),
+  podiums: (a, b) =>
+    countPositionsUpTo(b.raceResults, 3) - countPositionsUpTo(a.raceResults, 3),
+  // Compare the number of P1s, then P2s, and so on down the field
+  countback: (a, b) => {
+    const maxPosition = Math.max(
+      0,
+      ...a.raceResults.map(resultRank).filter(Number.isFinite),
+      ...b.raceResults.map(resultRank).filter(Number.isFinite),
+    );
+    for (let position = 1; position <= maxPosition; position++) {
+      const diff =
+        countPosition(b.raceResults, position) -
+        countPosition(a.raceResults, position);
+      if (diff !== 0) return diff;
+    }
+    return 0;
+  },
+  // The most recent race where the two results differ decides
+  lastRace: (a, b) => {
+    for (let i = a.raceResults.length - 1; i >= 0; i--) {
+      const diff = resultRank(a.raceResults[i]) - resultRank(b.raceResults[i]);
+      if (diff !== 0 && !Number.isNaN(diff)) return diff;
+    }
+    return 0;
+  },
+  // More races finished ahead of the other, counting races where both were classified
+  headToHead: (a, b) => {
+    let balance = 0;
+    a.raceResults.forEach((aResult, i) => {
+      const bResult = b.raceResults[i];
+      if (aResult === null || bResult === null || aResult === bResult) return;
+      balance += aResult < bResult ? -1 : 1;
     });
-  }
+    return balance;
+  },
+};
 
-  // Sort by points (descending), then by best positions
-  drivers.sort((a, b) => {
+const createDriverComparator =
+  (tieBreakers: TieBreakRule[]) =>
+  (a: DriverStanding, b: DriverStanding): number => {
     if (b.points !== a.points) return b.points - a.points;
+    for (const rule of tieBreakers) {
+      const diff = TIE_BREAKERS[rule]?.(a, b) ?? 0;
+      if (diff !== 0) return diff;
+    }
+    return 0;
+  };
 
-    // Count wins, podiums, etc.
-    const aWins = a.positions.filter((p) => p === 1).length;
-    const bWins = b.positions.filter((p) => p === 1).length;
-    if (bWins !== aWins) return bWins - aWins;
+const comparePoints = (a: { points: number }, b: { points: number }) =>
+  b.points - a.points;
 
-    const aPodiums = a.positions.filter((p) => p <= 3).length;
-    const bPodiums = b.positions.filter((p) => p <= 3).length;
-    if (bPodiums !== aPodiums) return bPodiums - aPodiums;
+const sumPoints = (racePoints: (number | null)[]): number =>
+  racePoints.reduce<number>((sum, p) => sum + (p ?? 0), 0);
 
-    return 0;
+/**
+ * Flags the race scores discarded by the counted-results rule.
+ * Missed races score zero and are discarded first, so a driver who skipped
+ * a round uses up a drop on it; among equal scores the earliest race goes.
+ */
+export const getDroppedResults = (
+  racePoints: (number | null)[],
+  rule: CountedResultsRule,
+): boolean[] => {
+  const dropped = racePoints.map(() => false);
+  // Fewer than one counted result is not a usable rule; count them all
+  const dropCount =
+    rule.mode === "bestOf" && rule.count >= 1
+      ? racePoints.length - rule.count
+      : rule.mode === "dropWorst"
+        ? rule.count
+        : 0;
+  if (dropCount <= 0) return dropped;
+
+  racePoints
+    .map((points, raceIdx) => ({ points, raceIdx }))
+    .sort(
+      (a, b) =>
+        (a.points ?? -Infinity) - (b.points ?? -Infinity) ||
+        a.raceIdx - b.raceIdx,
+    )
+    .slice(0, dropCount)
+    .forEach(({ raceIdx }) => (dropped[raceIdx] = true));
+
+  return dropped;
+};
+
+/**
+ * Sorts standings and numbers them. Entries the comparator cannot separate
+ * share a position (1, 2, =3, =3, 5) and are flagged as tied.
+ */
+const rankStandings = <T extends { position: number; tied: boolean }>(
+  standings: T[],
+  compare: (a: T, b: T) => number,
+): T[] => {
+  standings.sort(compare);
+  standings.forEach((s, i) => {
+    const previous = standings[i - 1];
+    if (previous && compare(previous, s) === 0) {
+      s.position = previous.position;
+      s.tied = true;
+      previous.tied = true;
+    } else {
+      s.position = i + 1;
+      s.tied = false;
+    }
   });
+  return standings;
+};
 
-  return { drivers, teams: teamPoints, vehicles: vehiclePoints };
+const ordinalSuffix = (n: number): string => {
+  const mod100 = n % 100;
+  if (mod100 >= 11 && mod100 <= 13) return "th";
+  switch (n % 10) {
+    case 1:
+      return "st";
+    case 2:
+      return "nd";
+    case 3:
+      return "rd";
+    default:
+      return "th";
+  }
 };
 
-export const getBestLapTimes = (
-  races: ParsedRace[],
-): Array<{ driver: string; time: string; track: string; vehicle: string }> => {
-  const bestLaps: Array<{
-    driver: string;
-    time: string;
-    track: string;
-    vehicle: string;
-    seconds: number;
-  }> = [];
+/**
+ * Formats a standings position, marking shared positions explicitly ("=3rd").
+ */
+export const formatStandingPosition = (standing: {
+  position: number;
+  tied: boolean;
+}): string =>
+  standing.tied
+    ? `=${standing.position}${ordinalSuffix(standing.position)}`
+    : String(standing.position);
+
+interface GroupAccumulator {
+  vehicleId?: number;
+  entries: Set<string>;
+  racePoints: (number | null)[];
+}
 
-  for (const race of races) {
-    for (const slot of race.slots) {
-      if (slot.BestLap) {
-        const seconds = parseTimeToSeconds(slot.BestLap);
-        if (seconds) {
-          bestLaps.push({
-            driver: slot.Driver,
-            time: slot.BestLap,
-            track: race.trackname,
-            vehicle: slot.Vehicle,
-            seconds,
-          });
-        }
+/**
+ * Sums points per group (team or vehicle) race by race.
+ * A group scores null in races where none of its entries took part.
+ */
+const accumulateGroups = (
+  classifiedRaces: ClassifiedSlot[][],
+  getKey: (slot: RaceSlot) => string,
+  getEntryKey: (slot: RaceSlot, raceIdx: number) => string,
+): Map<string, GroupAccumulator> => {
+  const groups = new Map<string, GroupAccumulator>();
+
+  classifiedRaces.forEach((classification, raceIdx) => {
+    for (const { slot, points } of classification) {
+      const key = getKey(slot);
+      if (!groups.has(key)) {
+        groups.set(key, {
+          vehicleId: slot.VehicleId,
+          entries: new Set(),
+          racePoints: new Array(classifiedRaces.length).fill(null),
+        });
       }
+      const group = groups.get(key)!;
+      group.entries.add(getEntryKey(slot, raceIdx));
+      group.racePoints[raceIdx] = (group.racePoints[raceIdx] ?? 0) + points;
     }
-  }
-
-  // Sort by time
-  bestLaps.sort((a, b) => a.seconds - b.seconds);
+  });
 
-  return bestLaps.slice(0, 20).map(({ seconds, ...rest }) => rest);
+  return groups;
 };
 
-export const getBestQualifyingTimes = (
+export const buildStandings = (
   races: ParsedRace[],
-): Array<{ driver: string; time: string; track: string; vehicle: string }> => {
-  const bestQuals: Array<{
-    driver: string;
-    time: string;
-    track: string;
-    vehicle: string;
-    seconds: number;
-  }> = [];
-
-  for (const race of races) {
-    for (const slot of race.slots) {
-      if (slot.QualTime) {
-        const seconds = parseTimeToSeconds(slot.QualTime);
-        if (seconds) {
-          bestQuals.push({
-            driver: slot.Driver,
-            time: slot.QualTime,
-            track: race.trackname,
-            vehicle: slot.Vehicle,
-            seconds,
-          });
-        }
+  config: StandingsConfig = DEFAULT_STANDINGS_CONFIG,
+  penalties: RacePenalty[] = [],
+  aliases: DriverAlias[] = [],
+): ChampionshipStandings => {
+  const classifiedRaces = races.map((race) =>
+    classifyRace(race, config, penalties),
+  );
+  const raceIdentities = races.map((race) =>
+    getDriverIdentities(race, aliases),
+  );
+  const getEntryKey = (slot: RaceSlot, raceIdx: number) =>
+    raceIdentities[raceIdx].get(slot)?.key ?? slot.Driver;
+
+  const driverMap = new Map<string, DriverStanding>();
+  classifiedRaces.forEach((classification, raceIdx) => {
+    for (const {
+      slot,
+      position,
+      points,
+      bonuses,
+      penalties: slotPenalties,
+      status,
+    } of classification) {
+      const identity = raceIdentities[raceIdx].get(slot);
+      const driverKey = identity?.key ?? slot.Driver;
+      let standing = driverMap.get(driverKey);
+      if (!standing) {
+        standing = {
+          position: 0,
+          tied: false,
+          driverKey,
+          driver: slot.Driver,
+          vehicle: slot.Vehicle,
+          vehicleId: slot.VehicleId,
+          isHuman: false,
+          team: slot.Team,
+          points: 0,
+          grossPoints: 0,
+          raceResults: new Array(races.length).fill(null),
+          racePoints: new Array(races.length).fill(null),
+          droppedResults: new Array(races.length).fill(false),
+          raceBonuses: races.map(() => []),
+          racePenalties: races.map(() => []),
+          raceStatuses: new Array(races.length).fill(null),
+        };
+        driverMap.set(driverKey, standing);
       }
+      // Races are in order, so the latest name is the one shown
+      standing.driver = identity?.name ?? slot.Driver;
+      standing.isHuman ||= isHumanSlot(slot, races[raceIdx]);
+      standing.raceResults[raceIdx] = position;
+      // Unclassified drivers keep a score only for a pole bonus or a deduction
+      standing.racePoints[raceIdx] =
+        position === null && points === 0 ? null : points;
+      standing.raceBonuses[raceIdx] = bonuses;
+      standing.racePenalties[raceIdx] = slotPenalties;
+      standing.raceStatuses[raceIdx] = status ?? null;
     }
+  });
+
+  const drivers = [...driverMap.values()];
+  for (const driver of drivers) {
+    driver.droppedResults = getDroppedResults(
+      driver.racePoints,
+      config.countedResults,
+    );
+    driver.grossPoints = sumPoints(driver.racePoints);
+    driver.points = sumPoints(
+      driver.racePoints.map((p, i) => (driver.droppedResults[i] ? null : p)),
+    );
   }
 
-  // Sort by time
-  bestQuals.sort((a, b) => a.seconds - b.seconds);
+  const teams: TeamStanding[] = [];
+  accumulateGroups(
+    classifiedRaces,
+    (slot) => slot.Team || "No Team",
+    getEntryKey,
+  ).forEach((data, team) => {
+    teams.push({
+      position: 0,
+      tied: false,
+      team,
+      entries: data.entries.size,
+      points: sumPoints(data.racePoints),
+      racePoints: data.racePoints,
+    });
+  });
 
-  return bestQuals.slice(0, 20).map(({ seconds, ...rest }) => rest);
+  const vehicles: VehicleStanding[] = [];
+  accumulateGroups(
+    classifiedRaces,
+    (slot) => slot.Vehicle,
+    getEntryKey,
+  ).forEach((data, vehicle) => {
+    vehicles.push({
+      position: 0,
+      tied: false,
+      vehicle,
+      vehicleId: data.vehicleId,
+      entries: data.entries.size,
+      points: sumPoints(data.racePoints),
+      racePoints: data.racePoints,
+    });
+  });
+  return {
+    drivers: rankStandings(
+      drivers,
+      createDriverComparator(config.tieBreakers ?? []),
+    ),
+    teams: rankStandings(teams, comparePoints),
+    vehicles: rankStandings(vehicles, comparePoints),
+  };
+};
+
+const getBestTimesPerRace = (
+  races: ParsedRace[],
+  getTime: (slot: RaceSlot) => string | undefined,
+  topN?: number,
+): BestTime[][] => {
+  return races.map((race) => {
+    const times: BestTime[] = [];
+    for (const slot of race.slots) {
+      const seconds = parseTime(getTime(slot) ?? "");
+      if (seconds === undefined || seconds <= 0) continue;
+      times.push({
+        driver: slot.Driver,
+        vehicle: slot.Vehicle,
+        vehicleId: slot.VehicleId,
+        isHuman: isHumanSlot(slot, race),
+        time: makeTime(seconds),
+        timeMs: seconds * 1000,
+      });
+    }
+    times.sort((a, b) => a.timeMs - b.timeMs);
+    return topN === undefined ? times : times.slice(0, topN);
+  });
 };
 
+export const getBestLapTimes = (
+  races: ParsedRace[],
+  topN?: number,
+): BestTime[][] => getBestTimesPerRace(races, (slot) => slot.BestLap, topN);
+
+export const getBestQualifyingTimes = (
+  races: ParsedRace[],
+  topN?: number,
+): BestTime[][] => getBestTimesPerRace(races, (slot) => slot.QualTime, topN);
+
 export const buildRaceDatabase = (
   races: ParsedRace[],
   description: string = "",
@@ -70,3 +70,15 @@ export const computeTime = (times: number[]): [number, number, number] => {
 export const outputTime = (time: number): string => {
   return time.toFixed(2);
 };
+
+/**
+ * Format the gap between two times in milliseconds as "+ 1.234".
+ * Returns an empty string when both times are equal.
+ */
+export const formatTimeDiff = (baseMs: number, currentMs: number): string => {
+  const diff = currentMs - baseMs;
+  if (diff === 0) return "";
+  const sign = diff > 0 ? "+ " : "- ";
+  const absDiff = Math.abs(diff) / 1000;
+  return `${sign}${absDiff.toFixed(3)}`;
+};
@@ -9,34 +9,21 @@ const formatNumber = (value: number): string => {
   return formatted.replace(/\.?0+$/, "").replace(/\.0+$/, "");
 };
 
+export interface MatrixEntry {
+  aiData: Record<number, number[]>;
+  samplesCount: Record<number, number>;
+  playerTimes: number[];
+}
+
+// Track ID -> class ID -> data, both levels in numeric ID order
+export type AdaptationMatrix = Map<string, Map<string, MatrixEntry>>;
+
 /**
  * Builds an empty matrix of all track/class combinations sorted numerically by ID.
  * This ensures the XML export includes all combinations even if they have no AI data.
  */
-const buildEmptyMatrix = (
-  assets: Assets,
-): Map<
-  string,
-  Map<
-    string,
-    {
-      aiData: Record<number, number[]>;
-      samplesCount: Record<number, number>;
-      playerTimes: number[];
-    }
-  >
-> => {
-  const trackMap = new Map<
-    string,
-    Map<
-      string,
-      {
-        aiData: Record<number, number[]>;
-        samplesCount: Record<number, number>;
-        playerTimes: number[];
-      }
-    >
-  >();
+export const buildEmptyMatrix = (assets: Assets): AdaptationMatrix => {
+  const trackMap: AdaptationMatrix = new Map();
 
   // Sort tracks by ID numerically to match original XML format
   const sortedTracks = [...assets.tracksSorted].sort(
@@ -49,14 +36,7 @@ const buildEmptyMatrix = (
 
   // Initialize all track/class combinations with empty data
   for (const track of sortedTracks) {
-    const classMap = new Map<
-      string,
-      {
-        aiData: Record<number, number[]>;
-        samplesCount: Record<number, number>;
-        playerTimes: number[];
-      }
-    >();
+    const classMap = new Map<string, MatrixEntry>();
     for (const cls of sortedClasses) {
       classMap.set(cls.id, { aiData: {}, samplesCount: {}, playerTimes: [] });
     }
@@ -69,19 +49,9 @@ const buildEmptyMatrix = (
 /**
  * Merges AI data from database into the track map
  */
-const mergeAIData = (
+export const mergeAIData = (
   database: Database,
-  trackMap: Map<
-    string,
-    Map<
-      string,
-      {
-        aiData: Record<number, number[]>;
-        samplesCount: Record<number, number>;
-        playerTimes: number[];
-      }
-    >
-  >,
+  trackMap: AdaptationMatrix,
 ): void => {
   for (const [classId, classData] of Object.entries(database.classes)) {
     for (const [trackId, trackData] of Object.entries(classData.tracks)) {
@@ -98,19 +68,9 @@ const mergeAIData = (
 /**
  * Merges player times into the track map
  */
-const mergePlayerTimes = (
+export const mergePlayerTimes = (
   playerTimes: PlayerTimes,
-  trackMap: Map<
-    string,
-    Map<
-      string,
-      {
-        aiData: Record<number, number[]>;
-        samplesCount: Record<number, number>;
-        playerTimes: number[];
-      }
-    >
-  >,
+  trackMap: AdaptationMatrix,
 ): void => {
   for (const [classId, classData] of Object.entries(playerTimes.classes)) {
     for (const [trackId, trackData] of Object.entries(classData.tracks)) {
@@ -181,14 +141,7 @@ const buildAISkillXML = (
  */
 const buildClassDataXML = (
   sortedClasses: Array<{ id: string; name: string }>,
-  classMap: Map<
-    string,
-    {
-      aiData: Record<number, number[]>;
-      samplesCount: Record<number, number>;
-      playerTimes: number[];
-    }
-  >,
+  classMap: Map<string, MatrixEntry>,
   lines: string[],
 ): void => {
   let classIndex = 0;
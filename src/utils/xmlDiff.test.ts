@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import type { DatabaseTrack } from "../types";
+import { diffAdaptations, type AdaptationSnapshot } from "./xmlDiff";
+
+const snapshot = (
+  track: DatabaseTrack,
+  playertimes: number[],
+): AdaptationSnapshot => ({
+  database: { classes: { "1": { tracks: { "10": track } } } },
+  playerTimes: { classes: { "1": { tracks: { "10": { playertimes } } } } },
+});
+
+describe("diffAdaptations", () => {
+  it("lists added, removed and changed levels and player laps", () => {
+    const diff = diffAdaptations(
+      snapshot(
+        {
+          ailevels: { 100: [90], 105: [88] },
+          samplesCount: { 100: 2, 105: 1 },
+        },
+        [91, 92, 92],
+      ),
+      snapshot(
+        {
+          ailevels: { 100: [90.5], 110: [86] },
+          samplesCount: { 100: 3, 110: 1 },
+        },
+        [91, 92, 93],
+      ),
+    );
+    expect(diff.tracks).toEqual([
+      {
+        classid: "1",
+        trackid: "10",
+        added: [{ ailevel: 110, time: 86, samples: 1 }],
+        removed: [{ ailevel: 105, time: 88, samples: 1 }],
+        changed: [
+          {
+            ailevel: 100,
+            oldTime: 90,
+            newTime: 90.5,
+            oldSamples: 2,
+            newSamples: 3,
+          },
+        ],
+        playerTimesRemoved: [92],
+        playerTimesAdded: [93],
+      },
+    ]);
+    expect(diff.totals).toEqual({
+      added: 1,
+      removed: 1,
+      changed: 1,
+      playerTimesRemoved: 1,
+      playerTimesAdded: 1,
+    });
+  });
+
+  it("ignores differences hidden by the exported rounding", () => {
+    const diff = diffAdaptations(
+      snapshot({ ailevels: { 100: [90] }, samplesCount: { 100: 1 } }, [91]),
+      snapshot(
+        { ailevels: { 100: [90.00001] }, samplesCount: { 100: 1 } },
+        [91.00001],
+      ),
+    );
+    expect(diff.tracks).toEqual([]);
+  });
+
+  it("compares a sampled level against a new sample count", () => {
+    const diff = diffAdaptations(
+      snapshot({ ailevels: { 100: [90] }, samplesCount: { 100: 1 } }, []),
+      snapshot({ ailevels: { 100: [90] }, samplesCount: { 100: 2 } }, []),
+    );
+    expect(diff.totals.changed).toBe(1);
+  });
+});
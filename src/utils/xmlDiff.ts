@@ -0,0 +1,195 @@
+/**
+ * Structured diff between two versions of aiadaptation.xml: AI levels added,
+ * removed and changed, plus player lap times removed or added, per class/track.
+ */
+
+import type { Database, DatabaseTrack, PlayerTimes } from "../types";
+import { parseAdaptive } from "./xmlParser";
+
+// Exported times are rounded to 4 decimals; smaller differences are not changes
+const TIME_EPSILON = 1e-4;
+
+export interface AdaptationSnapshot {
+  database: Database;
+  playerTimes: PlayerTimes;
+}
+
+export interface AILevelEntry {
+  ailevel: number;
+  time: number;
+  samples: number;
+}
+
+export interface AILevelChange {
+  ailevel: number;
+  oldTime: number;
+  newTime: number;
+  oldSamples: number;
+  newSamples: number;
+}
+
+export interface TrackDiff {
+  classid: string;
+  trackid: string;
+  added: AILevelEntry[];
+  removed: AILevelEntry[];
+  changed: AILevelChange[];
+  playerTimesRemoved: number[];
+  playerTimesAdded: number[];
+}
+
+export interface AdaptationDiff {
+  tracks: TrackDiff[];
+  totals: {
+    added: number;
+    removed: number;
+    changed: number;
+    playerTimesRemoved: number;
+    playerTimesAdded: number;
+  };
+}
+
+const levelEntries = (track: DatabaseTrack | undefined) => {
+  const entries = new Map<number, AILevelEntry>();
+  for (const [ai, times] of Object.entries(track?.ailevels ?? {})) {
+    if (times.length === 0) continue;
+    const ailevel = Number(ai);
+    entries.set(ailevel, {
+      ailevel,
+      time: times.reduce((sum, t) => sum + t, 0) / times.length,
+      samples: track?.samplesCount?.[ailevel] ?? 0,
+    });
+  }
+  return entries;
+};
+
+// Multiset difference: laps in `from` that are missing from `to`
+const missingLaps = (from: number[], to: number[]) => {
+  const remaining = [...to];
+  return from.filter((lap) => {
+    const idx = remaining.findIndex((t) => Math.abs(t - lap) < TIME_EPSILON);
+    if (idx === -1) return true;
+    remaining.splice(idx, 1);
+    return false;
+  });
+};
+
+const pairKeys = (
+  before: AdaptationSnapshot,
+  after: AdaptationSnapshot,
+): Array<[string, string]> => {
+  const keys = new Set<string>();
+  for (const source of [
+    before.database,
+    after.database,
+    before.playerTimes,
+    after.playerTimes,
+  ]) {
+    for (const [classid, classData] of Object.entries(source.classes)) {
+      for (const trackid of Object.keys(classData.tracks)) {
+        keys.add(`${classid}|${trackid}`);
+      }
+    }
+  }
+  return [...keys].map((key) => key.split("|") as [string, string]);
+};
+
+export const diffAdaptations = (
+  before: AdaptationSnapshot,
+  after: AdaptationSnapshot,
+): AdaptationDiff => {
+  const tracks: TrackDiff[] = [];
+
+  for (const [classid, trackid] of pairKeys(before, after)) {
+    const oldLevels = levelEntries(
+      before.database.classes[classid]?.tracks[trackid],
+    );
+    const newLevels = levelEntries(
+      after.database.classes[classid]?.tracks[trackid],
+    );
+
+    const added = [...newLevels.values()].filter(
+      (entry) => !oldLevels.has(entry.ailevel),
+    );
+    const removed = [...oldLevels.values()].filter(
+      (entry) => !newLevels.has(entry.ailevel),
+    );
+    const changed: AILevelChange[] = [];
+    for (const [ailevel, oldEntry] of oldLevels) {
+      const newEntry = newLevels.get(ailevel);
+      if (!newEntry) continue;
+      if (
+        Math.abs(newEntry.time - oldEntry.time) >= TIME_EPSILON ||
+        newEntry.samples !== oldEntry.samples
+      ) {
+        changed.push({
+          ailevel,
+          oldTime: oldEntry.time,
+          newTime: newEntry.time,
+          oldSamples: oldEntry.samples,
+          newSamples: newEntry.samples,
+        });
+      }
+    }
+
+    const oldLaps =
+      before.playerTimes.classes[classid]?.tracks[trackid]?.playertimes ?? [];
+    const newLaps =
+      after.playerTimes.classes[classid]?.tracks[trackid]?.playertimes ?? [];
+    const playerTimesRemoved = missingLaps(oldLaps, newLaps);
+    const playerTimesAdded = missingLaps(newLaps, oldLaps);
+
+    if (
+      added.length ||
+      removed.length ||
+      changed.length ||
+      playerTimesRemoved.length ||
+      playerTimesAdded.length
+    ) {
+      const byLevel = (a: { ailevel: number }, b: { ailevel: number }) =>
+        a.ailevel - b.ailevel;
+      tracks.push({
+        classid,
+        trackid,
+        added: added.sort(byLevel),
+        removed: removed.sort(byLevel),
+        changed: changed.sort(byLevel),
+        playerTimesRemoved,
+        playerTimesAdded,
+      });
+    }
+  }
+
+  const count = (pick: (track: TrackDiff) => unknown[]) =>
+    tracks.reduce((sum, track) => sum + pick(track).length, 0);
+
+  return {
+    tracks,
+    totals: {
+      added: count((t) => t.added),
+      removed: count((t) => t.removed),
+      changed: count((t) => t.changed),
+      playerTimesRemoved: count((t) => t.playerTimesRemoved),
+      playerTimesAdded: count((t) => t.playerTimesAdded),
+    },
+  };
+};
+
+const parseSnapshot = (xmlText: string): AdaptationSnapshot => {
+  const snapshot: AdaptationSnapshot = {
+    database: { classes: {} },
+    playerTimes: { classes: {} },
+  };
+  parseAdaptive(xmlText, snapshot.database, snapshot.playerTimes);
+  return snapshot;
+};
+
+/**
+ * Diffs two aiadaptation.xml texts, e.g. two saved files or the current
+ * state and the buildXML output about to be exported.
+ */
+export const diffAdaptationXml = (
+  beforeXml: string,
+  afterXml: string,
+): AdaptationDiff =>
+  diffAdaptations(parseSnapshot(beforeXml), parseSnapshot(afterXml));
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import type { Assets, Database, PlayerTimes } from "../types";
+import { buildXML } from "./xmlBuilder";
+import { mergeAdaptations } from "./xmlMerger";
+
+const assets: Assets = {
+  classes: { "1": { id: "1", name: "GT3" } },
+  classesSorted: [{ id: "1", name: "GT3" }],
+  tracks: { "10": { id: "10", name: "Track" } },
+  tracksSorted: [{ id: "10", name: "Track" }],
+  numClasses: 1,
+  numTracks: 1,
+};
+
+const adaptation = (
+  levels: Record<number, [time: number, samples: number]>,
+  laps: number[] = [],
+) => {
+  const database: Database = { classes: {} };
+  if (Object.keys(levels).length > 0) {
+    database.classes["1"] = {
+      tracks: {
+        "10": {
+          ailevels: Object.fromEntries(
+            Object.entries(levels).map(([ai, [time]]) => [ai, [time]]),
+          ),
+          samplesCount: Object.fromEntries(
+            Object.entries(levels).map(([ai, [, samples]]) => [ai, samples]),
+          ),
+        },
+      },
+    };
+  }
+  const playerTimes: PlayerTimes = {
+    classes: laps.length
+      ? { "1": { tracks: { "10": { playertimes: laps } } } }
+      : {},
+  };
+  return buildXML(database, playerTimes, assets);
+};
+
+describe("mergeAdaptations", () => {
+  it("weights lap times by sampled races", () => {
+    const result = mergeAdaptations([
+      { name: "a.xml", xmlText: adaptation({ 100: [90, 3] }) },
+      { name: "b.xml", xmlText: adaptation({ 100: [94, 1] }) },
+    ]);
+    const track = result.database.classes["1"].tracks["10"];
+    expect(track.ailevels[100]).toEqual([91]);
+    expect(track.samplesCount?.[100]).toBe(4);
+  });
+
+  it("reports levels that disagree by more than the conflict threshold", () => {
+    const result = mergeAdaptations([
+      { name: "a.xml", xmlText: adaptation({ 100: [90, 1], 105: [88, 1] }) },
+      { name: "b.xml", xmlText: adaptation({ 100: [95, 1], 105: [88.1, 1] }) },
+    ]);
+    expect(result.conflicts.map((c) => c.ailevel)).toEqual([100]);
+  });
+
+  it("pools player laps and keeps the fastest as best", () => {
+    const result = mergeAdaptations([
+      { name: "a.xml", xmlText: adaptation({ 100: [90, 1] }, [91, 92]) },
+      { name: "b.xml", xmlText: adaptation({}, [89.5, 91]) },
+    ]);
+    const laps = result.playerTimes.classes["1"].tracks["10"];
+    expect([...(laps.playertimes ?? [])].sort()).toEqual([89.5, 91, 92]);
+    expect(laps.playertime).toBe(89.5);
+  });
+
+  it("accepts a file with only player laps as a valid source", () => {
+    const result = mergeAdaptations([
+      { name: "laps.xml", xmlText: adaptation({}, [90]) },
+    ]);
+    expect(result.sources).toEqual([
+      { name: "laps.xml", valid: true, aiLevels: 0, playerLaps: 1 },
+    ]);
+  });
+
+  it("marks unreadable files as invalid", () => {
+    const result = mergeAdaptations([
+      { name: "broken.xml", xmlText: "<notAdaptation />" },
+    ]);
+    expect(result.sources[0].valid).toBe(false);
+  });
+});
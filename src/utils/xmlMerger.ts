@@ -0,0 +1,156 @@
+/**
+ * Merges several aiadaptation.xml files (e.g. from different installs) into a
+ * single database, weighting lap times by their numberOfSampledRaces.
+ */
+
+import type {
+  Database,
+  DatabaseClass,
+  DatabaseTrack,
+  PlayerTimes,
+} from "../types";
+import { readAdaptive } from "./xmlParser";
+
+// Same class/track/AI level times further apart than this are reported as conflicts
+export const MERGE_CONFLICT_PCT = 1;
+
+export interface MergeSource {
+  name: string;
+  xmlText: string;
+}
+
+export interface MergeSourceSummary {
+  name: string;
+  valid: boolean;
+  aiLevels: number; // Class/track/AI level entries read from the file
+  playerLaps: number;
+}
+
+export interface MergeConflict {
+  classid: string;
+  trackid: string;
+  ailevel: number;
+  spreadPct: number; // (slowest - fastest) / fastest, in percent
+  mergedTime: number;
+  entries: Array<{ source: string; time: number; samples: number }>;
+}
+
+export interface MergeResult {
+  database: Database;
+  playerTimes: PlayerTimes;
+  sources: MergeSourceSummary[];
+  conflicts: MergeConflict[];
+}
+
+export const mergeAdaptations = (sources: MergeSource[]): MergeResult => {
+  // class -> track -> AI level -> contributions from each file
+  const levels: Record<
+    string,
+    Record<
+      string,
+      Record<number, Array<{ source: string; time: number; samples: number }>>
+    >
+  > = {};
+  const playerTimes: PlayerTimes = { classes: {} };
+  const summaries: MergeSourceSummary[] = [];
+
+  for (const { name, xmlText } of sources) {
+    const fileDb: Database = { classes: {} };
+    const filePt: PlayerTimes = { classes: {} };
+    // Valid when the file parses, even if it only holds player laps
+    let valid: boolean;
+    try {
+      valid = readAdaptive(xmlText, fileDb, filePt).parsed;
+    } catch {
+      valid = false;
+    }
+
+    let aiLevels = 0;
+    for (const [classid, classData] of Object.entries(fileDb.classes)) {
+      for (const [trackid, track] of Object.entries(classData.tracks)) {
+        for (const [ai, times] of Object.entries(track.ailevels)) {
+          if (times.length === 0) continue;
+          const ailevel = Number(ai);
+          const time = times.reduce((sum, t) => sum + t, 0) / times.length;
+          levels[classid] ??= {};
+          levels[classid][trackid] ??= {};
+          levels[classid][trackid][ailevel] ??= [];
+          levels[classid][trackid][ailevel].push({
+            source: name,
+            time,
+            samples: track.samplesCount?.[ailevel] ?? 1,
+          });
+          aiLevels++;
+        }
+      }
+    }
+
+    // Player lap times are pooled; the best lap is the fastest of all files
+    let playerLaps = 0;
+    for (const [classid, classData] of Object.entries(filePt.classes)) {
+      for (const [trackid, track] of Object.entries(classData.tracks)) {
+        const laps = track.playertimes ?? [];
+        if (laps.length === 0) continue;
+        playerLaps += laps.length;
+        playerTimes.classes[classid] ??= { tracks: {} };
+        const merged = (playerTimes.classes[classid].tracks[trackid] ??= {
+          playertimes: [],
+        });
+        merged.playertimes = [
+          ...new Set([...(merged.playertimes ?? []), ...laps]),
+        ];
+        merged.playertime = Math.min(...merged.playertimes);
+      }
+    }
+
+    summaries.push({ name, valid, aiLevels, playerLaps });
+  }
+
+  const database: Database = { classes: {} };
+  const conflicts: MergeConflict[] = [];
+
+  for (const [classid, tracks] of Object.entries(levels)) {
+    const classDb: DatabaseClass = { tracks: {} };
+    database.classes[classid] = classDb;
+    for (const [trackid, aiLevels] of Object.entries(tracks)) {
+      const samplesCount: Record<number, number> = {};
+      const trackDb: DatabaseTrack = { ailevels: {}, samplesCount };
+      for (const [ai, entries] of Object.entries(aiLevels)) {
+        const ailevel = Number(ai);
+        const totalSamples = entries.reduce((sum, e) => sum + e.samples, 0);
+        // Generated levels carry 0 samples; fall back to a plain average when nothing was sampled
+        const mergedTime =
+          totalSamples > 0
+            ? entries.reduce((sum, e) => sum + e.time * e.samples, 0) /
+              totalSamples
+            : entries.reduce((sum, e) => sum + e.time, 0) / entries.length;
+
+        trackDb.ailevels[ailevel] = [Number.parseFloat(mergedTime.toFixed(4))];
+        samplesCount[ailevel] = totalSamples;
+        trackDb.minAI = Math.min(ailevel, trackDb.minAI ?? ailevel);
+        trackDb.maxAI = Math.max(ailevel, trackDb.maxAI ?? ailevel);
+
+        const times = entries.map((e) => e.time);
+        const fastest = Math.min(...times);
+        const spreadPct = ((Math.max(...times) - fastest) / fastest) * 100;
+        if (entries.length > 1 && spreadPct > MERGE_CONFLICT_PCT) {
+          conflicts.push({
+            classid,
+            trackid,
+            ailevel,
+            spreadPct,
+            mergedTime,
+            entries,
+          });
+        }
+      }
+      classDb.tracks[trackid] = trackDb;
+      const aiList = Object.keys(trackDb.ailevels).map(Number);
+      classDb.minAI = Math.min(...aiList, classDb.minAI ?? Infinity);
+      classDb.maxAI = Math.max(...aiList, classDb.maxAI ?? -Infinity);
+    }
+  }
+
+  conflicts.sort((a, b) => b.spreadPct - a.spreadPct);
+  return { database, playerTimes, sources: summaries, conflicts };
+};
@@ -183,25 +183,26 @@ const processTrackEntry = (
 
 /**
  * Parses the aiadaptation.xml file and populates database and player times.
- * Extracts AI skill levels, lap times, and number of sampled races for each track/class combo.
- * Preserves both single best player lap time and array of all player lap times.
- * Returns true if data was successfully parsed and added.
+ * Returns whether the file had the aiadaptation structure (parsed) and whether
+ * any AI levels were added; a file with only player laps parses without AI levels.
  */
-export const parseAdaptive = (
+export const readAdaptive = (
   xmlText: string,
   database: Database,
   playertimes?: PlayerTimes,
-): boolean => {
+): { parsed: boolean; aiAdded: boolean } => {
   const xml = parser.parse(xmlText);
-  if (!xml) return false;
-
-  const tracklist = xml.AiAdaptation.aiAdaptationData;
-  if (!tracklist || typeof tracklist !== "object") return false;
+  const tracklist = xml?.AiAdaptation?.aiAdaptationData;
+  if (!tracklist || typeof tracklist !== "object") {
+    return { parsed: false, aiAdded: false };
+  }
 
   const layoutIds = toArray(tracklist.layoutId);
   const values = toArray(tracklist.value);
 
-  if (layoutIds.length !== values.length) return false;
+  if (layoutIds.length !== values.length) {
+    return { parsed: false, aiAdded: false };
+  }
 
   let added = false;
   for (let i = 0; i < layoutIds.length; i++) {
@@ -210,5 +211,17 @@ export const parseAdaptive = (
     }
   }
 
-  return added;
+  return { parsed: true, aiAdded: added };
 };
+
+/**
+ * Parses the aiadaptation.xml file and populates database and player times.
+ * Extracts AI skill levels, lap times, and number of sampled races for each track/class combo.
+ * Preserves both single best player lap time and array of all player lap times.
+ * Returns true if data was successfully parsed and added.
+ */
+export const parseAdaptive = (
+  xmlText: string,
+  database: Database,
+  playertimes?: PlayerTimes,
+): boolean => readAdaptive(xmlText, database, playertimes).aiAdded;